@@ -0,0 +1,90 @@
+// ドライバーマスタのキャッシュ
+// 一覧はほとんど変わらないため、メモリ → Cache API → gRPC の順に参照する
+// /api/drivers/reload 実行時は新しい一覧で上書きする
+
+import type { DriverRow, GrpcWebClient } from '../grpc-client';
+
+const CACHE_KEY = 'https://timecard-cache.internal/drivers';
+export const DEFAULT_DRIVER_CACHE_TTL = 10 * 60; // 10分
+// isolate内のメモリキャッシュ（他のisolateでのリロードを早めに反映するため短め）
+const MEMORY_TTL = 60 * 1000; // 1分
+
+interface DriverCacheEntry {
+  cached_at: number;
+  drivers: DriverRow[];
+}
+
+// メモリキャッシュ（Worker再起動までは保持）
+let memoryCache: { entry: DriverCacheEntry; loadedAt: number } | null = null;
+
+export class DriverCache {
+  private client: GrpcWebClient;
+  private ttlSeconds: number;
+
+  constructor(client: GrpcWebClient, ttlSeconds: number = DEFAULT_DRIVER_CACHE_TTL) {
+    this.client = client;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  async getDrivers(): Promise<DriverRow[]> {
+    const now = Date.now();
+    if (memoryCache && now - memoryCache.loadedAt < MEMORY_TTL && this.isFresh(memoryCache.entry, now)) {
+      return memoryCache.entry.drivers;
+    }
+
+    const cached = await this.readCache();
+    if (cached && this.isFresh(cached, now)) {
+      memoryCache = { entry: cached, loadedAt: now };
+      return cached.drivers;
+    }
+
+    return this.store(await this.client.getDrivers());
+  }
+
+  // キャッシュにないID（追加直後のドライバー等）はGetByIdで取得する
+  async getDriverById(driverId: number): Promise<DriverRow[]> {
+    const drivers = await this.getDrivers();
+    const driver = drivers.find((d) => d.id === driverId);
+    if (driver) {
+      return [driver];
+    }
+    return this.client.getDriverById(driverId);
+  }
+
+  // 他のAPIでドライバー名を付与するための ID → 名前
+  async getDriverNames(): Promise<Map<number, string>> {
+    const drivers = await this.getDrivers();
+    return new Map(drivers.map((d) => [d.id, d.name]));
+  }
+
+  async reload(): Promise<DriverRow[]> {
+    return this.store(await this.client.reloadDrivers());
+  }
+
+  private isFresh(entry: DriverCacheEntry, now: number): boolean {
+    return now - entry.cached_at < this.ttlSeconds * 1000;
+  }
+
+  private async store(drivers: DriverRow[]): Promise<DriverRow[]> {
+    const entry: DriverCacheEntry = { cached_at: Date.now(), drivers };
+    memoryCache = { entry, loadedAt: entry.cached_at };
+    try {
+      await caches.default.put(CACHE_KEY, new Response(JSON.stringify(entry), {
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': `max-age=${this.ttlSeconds}` },
+      }));
+    } catch (e) {
+      console.error('Failed to store driver cache:', e);
+    }
+    return drivers;
+  }
+
+  private async readCache(): Promise<DriverCacheEntry | null> {
+    try {
+      const cached = await caches.default.match(CACHE_KEY);
+      return cached ? await cached.json() as DriverCacheEntry : null;
+    } catch (e) {
+      console.error('Failed to read driver cache:', e);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// APIエラーレスポンス
+// すべてのエラーは { error: { code, message, detail? } } 形式で返す
+// message は画面表示用の日本語、detail はバックエンドからの元メッセージ
+
+import { Code, GrpcError } from '../grpc-error';
+
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    detail?: string;
+  };
+}
+
+// gRPCステータス → HTTPステータス
+const HTTP_STATUS: Partial<Record<Code, number>> = {
+  [Code.Canceled]: 499,
+  [Code.InvalidArgument]: 400,
+  [Code.OutOfRange]: 400,
+  [Code.FailedPrecondition]: 400,
+  [Code.NotFound]: 404,
+  [Code.AlreadyExists]: 409,
+  [Code.Aborted]: 409,
+  [Code.Unauthenticated]: 401,
+  [Code.PermissionDenied]: 403,
+  [Code.ResourceExhausted]: 429,
+  [Code.Unimplemented]: 501,
+  [Code.Unavailable]: 503,
+  [Code.DeadlineExceeded]: 504,
+};
+
+const MESSAGES: Partial<Record<Code, string>> = {
+  [Code.Canceled]: 'リクエストがキャンセルされました',
+  [Code.InvalidArgument]: '入力内容が正しくありません',
+  [Code.OutOfRange]: '指定された範囲が正しくありません',
+  [Code.FailedPrecondition]: '現在の状態ではこの操作を実行できません',
+  [Code.NotFound]: '対象のデータが見つかりません',
+  [Code.AlreadyExists]: '既に登録されています',
+  [Code.Aborted]: '他の操作と競合しました。もう一度お試しください',
+  [Code.Unauthenticated]: '認証が必要です',
+  [Code.PermissionDenied]: 'この操作を行う権限がありません',
+  [Code.ResourceExhausted]: 'リクエストが多すぎます。しばらくしてからお試しください',
+  [Code.Unimplemented]: 'サーバーがこの機能に対応していません',
+  [Code.Unavailable]: 'サーバーに接続できません。しばらくしてからお試しください',
+  [Code.DeadlineExceeded]: 'サーバーの応答がタイムアウトしました',
+};
+
+const DEFAULT_MESSAGE = 'サーバーでエラーが発生しました';
+
+// ルート側の入力チェック等で使うエラー
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export function errorResponse(status: number, code: string, message: string, detail?: string): Response {
+  const body: ApiErrorBody = { error: { code, message } };
+  if (detail) {
+    body.error.detail = detail;
+  }
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function toErrorResponse(error: unknown): Response {
+  const { status, body } = toApiError(error);
+  return errorResponse(status, body.error.code, body.error.message, body.error.detail);
+}
+
+export function toApiError(error: unknown): { status: number; body: ApiErrorBody } {
+  if (error instanceof ApiError) {
+    return { status: error.status, body: { error: { code: error.code, message: error.message } } };
+  }
+
+  if (error instanceof GrpcError) {
+    return {
+      status: HTTP_STATUS[error.code] ?? 500,
+      body: {
+        error: {
+          code: error.codeName,
+          message: MESSAGES[error.code] ?? DEFAULT_MESSAGE,
+          detail: error.grpcMessage || undefined,
+        },
+      },
+    };
+  }
+
+  // request.json() のパース失敗
+  if (error instanceof SyntaxError) {
+    return {
+      status: 400,
+      body: { error: { code: 'INVALID_ARGUMENT', message: 'リクエストの形式が正しくありません', detail: error.message } },
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: {
+        code: 'INTERNAL',
+        message: DEFAULT_MESSAGE,
+        detail: error instanceof Error ? error.message : undefined,
+      },
+    },
+  };
+}
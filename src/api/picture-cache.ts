@@ -0,0 +1,81 @@
+// 写真・サムネイルのエッジキャッシュ
+// 撮影済みの写真は変わらないので、生成したサムネイルも含めて Cache API に長期間保存する
+
+import { decodeBase64 } from '../grpc-web-frames';
+import { createThumbnail, detectImageType, type ThumbnailSize } from '../thumbnail';
+
+const CACHE_ORIGIN = 'https://timecard-cache.internal';
+const PICTURE_CACHE_TTL = 30 * 24 * 60 * 60; // 30日
+
+export interface Picture {
+  bytes: Uint8Array;
+  contentType: string;
+}
+
+// path は /api/pic/{date}/{machine_ip}/{cam}、size 未指定なら原寸
+// サムネイルがなければキャッシュ済みの原寸から作り、原寸もなければ load() でバックエンドから取得する
+export async function getPicture(
+  path: string,
+  size: ThumbnailSize | null,
+  load: () => Promise<string | undefined>
+): Promise<Picture | null> {
+  if (size) {
+    const cached = await readPicture(cacheKey(path, size));
+    if (cached) {
+      return cached;
+    }
+  }
+
+  let original = await readPicture(cacheKey(path, null));
+  if (!original) {
+    const base64 = await load();
+    if (!base64) {
+      return null;
+    }
+    original = await storePicture(path, base64);
+  }
+  if (!size) {
+    return original;
+  }
+
+  const thumbnail: Picture = { bytes: createThumbnail(original.bytes, size), contentType: 'image/jpeg' };
+  await writePicture(cacheKey(path, size), thumbnail);
+  return thumbnail;
+}
+
+// 一覧の取得時に受け取った写真を保存しておく（後の /api/pic/... でバックエンドを探さずに済む）
+export async function storePicture(path: string, base64: string): Promise<Picture> {
+  const bytes = decodeBase64(base64);
+  const picture: Picture = { bytes, contentType: detectImageType(bytes) };
+  await writePicture(cacheKey(path, null), picture);
+  return picture;
+}
+
+function cacheKey(path: string, size: ThumbnailSize | null): string {
+  return CACHE_ORIGIN + path.replace(/^\/api/, '') + (size ? `?size=${size}` : '');
+}
+
+async function readPicture(key: string): Promise<Picture | null> {
+  try {
+    const cached = await caches.default.match(key);
+    if (cached) {
+      return {
+        bytes: new Uint8Array(await cached.arrayBuffer()),
+        contentType: cached.headers.get('Content-Type') ?? 'image/jpeg',
+      };
+    }
+  } catch (e) {
+    console.error('Failed to read picture cache:', e);
+  }
+  return null;
+}
+
+async function writePicture(key: string, picture: Picture): Promise<void> {
+  try {
+    await caches.default.put(key, new Response(picture.bytes, {
+      headers: { 'Content-Type': picture.contentType, 'Cache-Control': `max-age=${PICTURE_CACHE_TTL}` },
+    }));
+  } catch (e) {
+    console.error('Failed to store picture cache:', e);
+  }
+}
@@ -1,47 +1,203 @@
 // API Routes - Proxy to Rust gRPC-Web backend
 
-import { GrpcWebClient } from '../grpc-client';
+import { GrpcWebClient, collectMatching, type IcLogDetailRow, type PicTmpRow } from '../grpc-client';
+import { errorResponse, toApiError, toErrorResponse } from './errors';
+import { withStaleFallback } from './stale-cache';
+import { DriverCache } from './driver-cache';
+import { getPicture, storePicture, type Picture } from './picture-cache';
+import {
+  createBackendUserToken,
+  BACKEND_USER_HEADER,
+  listSessions,
+  revokeSession,
+  revokeUserSessions,
+  getApiPermission,
+  hasPermission,
+  listApiKeys,
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey,
+  isApiScope,
+  API_KEY_SCOPES,
+  API_KEY_NAME_MAX_LENGTH,
+  type SessionPayload,
+} from '../auth';
+import { getFeverThreshold, isFever, startOfTodayJst } from '../temperature';
+import { THUMBNAIL_SIZES, parseThumbnailSize } from '../thumbnail';
+import { buildAttendanceReport, currentMonthJst, fetchRangeJst, isValidMonth, jstDate } from '../reports/attendance';
+import { exportResponse, type CsvEncoding } from '../reports/export';
+
+// /api/pic_tmp/stream で1回に返す最大件数
+const PIC_TMP_STREAM_MAX_LIMIT = 1000;
 
 export interface Env {
   GRPC_API_URL: string;
+  GRPC_WEB_FORMAT?: string; // "text" (default) or "binary"
+  GRPC_TIMEOUT_MS?: string; // RPCごとのデッドライン（ミリ秒）
+  GRPC_MAX_ATTEMPTS?: string; // 読み取りRPCの最大試行回数（1でリトライなし）
+  DRIVER_CACHE_TTL?: string; // ドライバー一覧のキャッシュ期間（秒）
+  GRPC_USER_SECRET?: string; // x-timecard-user の署名用（未設定なら送らない）
+  FEVER_THRESHOLD?: string; // 発熱とみなす体温（デフォルト37.5）
+  SESSION_STORE: DurableObjectNamespace;
+  SESSION_MAX_DAYS?: string; // セッションの最長有効期間（日、全端末ログアウトの記録を残す期間に使う）
+  KIOSK_SESSION_DAYS?: string;
+  KIOSK_SESSION_MAX_DAYS?: string;
+  AUTH_KV?: KVNamespace; // APIキーの保存先
 }
 
-export async function handleApiRequest(request: Request, env: Env): Promise<Response> {
+export async function handleApiRequest(request: Request, env: Env, user?: SessionPayload): Promise<Response> {
   const url = new URL(request.url);
   const path = url.pathname;
 
-  const grpcClient = new GrpcWebClient(env.GRPC_API_URL);
+  // ロールで許可されていないAPI・権限の決まっていないAPIは呼ばせない
+  const permission = getApiPermission(request.method, path);
+  if (permission === undefined || (permission && !hasPermission(user, permission))) {
+    return errorResponse(403, 'PERMISSION_DENIED', 'この操作を行う権限がありません');
+  }
+
+  // 操作者をバックエンドで記録できるよう、認証済みユーザーを署名付きで渡す
+  const metadata: Record<string, string> = {};
+  if (user && env.GRPC_USER_SECRET) {
+    metadata[BACKEND_USER_HEADER] = await createBackendUserToken(user, env.GRPC_USER_SECRET);
+  }
+
+  const grpcClient = new GrpcWebClient(env.GRPC_API_URL, {
+    format: env.GRPC_WEB_FORMAT === 'binary' ? 'binary' : 'text',
+    timeoutMs: env.GRPC_TIMEOUT_MS ? parseInt(env.GRPC_TIMEOUT_MS) : undefined,
+    retry: env.GRPC_MAX_ATTEMPTS ? { maxAttempts: parseInt(env.GRPC_MAX_ATTEMPTS) } : undefined,
+    metadata,
+  });
+  const driverCache = new DriverCache(grpcClient, env.DRIVER_CACHE_TTL ? parseInt(env.DRIVER_CACHE_TTL) : undefined);
 
   try {
     // Route handlers
+    // 読み取り系はバックエンド停止時に最後に成功したレスポンスを stale: true 付きで返す
     if (path === '/api/drivers' && request.method === 'GET') {
-      const drivers = await grpcClient.getDrivers();
-      return jsonResponse(drivers);
+      const drivers = await withStaleFallback(request, () => driverCache.getDrivers());
+      return await etagJsonResponse(request, drivers);
     }
 
+    // リロード後の一覧でキャッシュを更新する
     if (path === '/api/drivers/reload' && request.method === 'POST') {
-      const drivers = await grpcClient.reloadDrivers();
+      const drivers = await driverCache.reload();
       return jsonResponse(drivers);
     }
 
     if (path === '/api/driver_id' && request.method === 'GET') {
       const driverId = url.searchParams.get('driver_id');
       if (!driverId) {
-        return jsonResponse({ error: 'driver_id is required' }, 400);
+        return errorResponse(400, 'INVALID_ARGUMENT', 'driver_id を指定してください');
       }
-      const driver = await grpcClient.getDriverById(parseInt(driverId));
-      return jsonResponse(driver);
+      const driver = await driverCache.getDriverById(parseInt(driverId));
+      return await etagJsonResponse(request, driver);
     }
 
+    // 写真付き体温データ（end を指定すると期間 [start, end) の新しい順）
+    // 期間指定時の続きは X-Next-Offset ヘッダーの値を offset に指定して取得する（最後まで取得したらヘッダーなし）
     if (path === '/api/pic_tmp' && request.method === 'GET') {
       const limit = parseInt(url.searchParams.get('limit') || '30');
+      const offset = parseInt(url.searchParams.get('offset') || '0');
       const start = url.searchParams.get('start') || undefined;
-      const data = await grpcClient.getPicTmp(limit, start);
-      return jsonResponse(data);
+      const end = url.searchParams.get('end') || undefined;
+      if (Number.isNaN(limit) || limit <= 0 || Number.isNaN(offset) || offset < 0) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'limit は正の数値、offset は0以上の数値で指定してください');
+      }
+      if (end && (!start || Number.isNaN(Date.parse(start)) || Number.isNaN(Date.parse(end)))) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'start / end は ISO 8601 形式で指定してください');
+      }
+
+      const { rows, nextOffset } = end
+        ? await grpcClient.getPicTmpRange(start!, end, limit, offset, request.signal)
+        : { rows: await grpcClient.getPicTmp(limit, start), nextOffset: null };
+      // 受け取った写真はキャッシュしておき、URL で返す
+      await Promise.all(rows.map(storePicTmpPictures));
+
+      const threshold = getFeverThreshold(env);
+      const response = jsonResponse(rows.map((row) => ({ ...withPictureUrls(row), fever: isFever(row.max_tmp, threshold) })));
+      if (nextOffset !== null) {
+        response.headers.set('X-Next-Offset', String(nextOffset));
+      }
+      return response;
+    }
+
+    // 長期間の写真付き体温データ（新しい順、NDJSONで1件ずつ返す）
+    // limit は必須で、PIC_TMP_STREAM_MAX_LIMIT 件まで
+    if (path === '/api/pic_tmp/stream' && request.method === 'GET') {
+      const limit = parseInt(url.searchParams.get('limit') || '');
+      const start = url.searchParams.get('start') || undefined;
+      if (Number.isNaN(limit) || limit <= 0) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'limit は正の数値で指定してください');
+      }
+      if (start && Number.isNaN(Date.parse(start))) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'start は ISO 8601 形式で指定してください');
+      }
+
+      const rows = grpcClient.streamPicTmp(Math.min(limit, PIC_TMP_STREAM_MAX_LIMIT), start, request.signal);
+      return await ndjsonResponse(mapRows(rows, async (row) => {
+        await storePicTmpPictures(row);
+        return withPictureUrls(row);
+      }));
+    }
+
+    // ICタッチ時のカメラ画像（なりすまし打刻の確認用、driver_id で絞り込み可）
+    // 続きは X-Next-Offset ヘッダーの値を offset に指定して取得する（最後まで取得したらヘッダーなし）
+    if (path === '/api/pic_ic' && request.method === 'GET') {
+      const limit = parseInt(url.searchParams.get('limit') || '30');
+      const offset = parseInt(url.searchParams.get('offset') || '0');
+      const driverIdParam = url.searchParams.get('driver_id');
+      const start = url.searchParams.get('start') || undefined;
+      if (Number.isNaN(limit) || Number.isNaN(offset) || (driverIdParam && Number.isNaN(parseInt(driverIdParam)))) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'limit / offset / driver_id は数値で指定してください');
+      }
+
+      // 絞り込みはページに切り出す前に行う（絞り込み後も limit 件ずつ返す）
+      const driverId = driverIdParam ? parseInt(driverIdParam) : null;
+      const [{ rows, nextOffset }, names] = await Promise.all([
+        driverId !== null
+          ? grpcClient.getPicIcByDriver(driverId, limit, offset, start, request.signal)
+          : grpcClient.getPicIc(limit, offset, start).then((rows) => ({ rows, nextOffset: rows.length === limit ? offset + limit : null })),
+        driverCache.getDriverNames(),
+      ]);
+      // 受け取った写真はキャッシュしておき、URL で返す
+      await Promise.all(rows
+        .filter((row) => row.pic_data)
+        .map((row) => storePicture(pictureUrl(row, 'ic'), row.pic_data!)));
+
+      const response = jsonResponse(rows.map(({ pic_data, ...row }) => ({
+        ...row,
+        driver_name: row.driver_id !== null ? names.get(row.driver_id) : undefined,
+        pic_url: pic_data ? pictureUrl(row, 'ic') : null,
+      })));
+      if (nextOffset !== null) {
+        response.headers.set('X-Next-Offset', String(nextOffset));
+      }
+      return response;
+    }
+
+    // 写真（/api/pic/{date}/{machine_ip}/{cam}、date は一覧の date をURLエンコードしたもの）
+    // cam は 1（体温測定時）/ 2（ID読み取り時）/ ic（ICタッチ時）
+    // ?size= を付けると長辺をそのピクセル数に縮小したサムネイル（JPEG）
+    const pictureMatch = path.match(/^\/api\/pic\/([^/]+)\/([^/]+)\/(1|2|ic)$/);
+    if (pictureMatch && request.method === 'GET') {
+      const date = decodeURIComponent(pictureMatch[1]);
+      const machineIp = decodeURIComponent(pictureMatch[2]);
+      if (Number.isNaN(Date.parse(date))) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'date は ISO 8601 形式で指定してください');
+      }
+      const sizeParam = url.searchParams.get('size');
+      const size = sizeParam ? parseThumbnailSize(sizeParam) : null;
+      if (sizeParam && !size) {
+        return errorResponse(400, 'INVALID_ARGUMENT', `size は ${THUMBNAIL_SIZES.join(' / ')} のいずれかを指定してください`);
+      }
+      const cam = pictureMatch[3];
+      return await pictureResponse(request, path + (size ? `?size=${size}` : ''), () =>
+        getPicture(path, size, () => cam === 'ic'
+          ? grpcClient.getIcPicture(date, machineIp)
+          : grpcClient.getTmpPicture(date, machineIp, cam === '1' ? 1 : 2)));
     }
 
     if (path === '/api/ic_non_reg' && request.method === 'GET') {
-      const items = await grpcClient.getIcNonReg();
+      const items = await withStaleFallback(request, () => grpcClient.getIcNonReg());
       return jsonResponse(items);
     }
 
@@ -57,9 +213,83 @@ export async function handleApiRequest(request: Request, env: Env): Promise<Resp
       return jsonResponse(result);
     }
 
+    // 期間内のICログ（start / end は ISO 8601、driver_id / machine_ip で絞り込み可）
     if (path === '/api/ic_log' && request.method === 'GET') {
-      const logs = await grpcClient.getIcLog();
-      return jsonResponse(logs);
+      const start = url.searchParams.get('start') || undefined;
+      const end = url.searchParams.get('end') || undefined;
+      if ((start && Number.isNaN(Date.parse(start))) || (end && Number.isNaN(Date.parse(end)))) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'start / end は ISO 8601 形式で指定してください');
+      }
+      const filter = parseIcLogFilter(url);
+      if (!filter) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'driver_id は数値で指定してください');
+      }
+      const logs = await grpcClient.getIcLog(start, end);
+      return jsonResponse(logs.filter(filter));
+    }
+
+    // ICログのダウンロード（CSV / Excel、start / end / driver_id / machine_ip は /api/ic_log と同じ）
+    // CSV は encoding=sjis で Shift_JIS、省略時は BOM 付き UTF-8
+    const exportMatch = path.match(/^\/api\/export\/ic_log\.(csv|xlsx)$/);
+    if (exportMatch && request.method === 'GET') {
+      const start = url.searchParams.get('start') || undefined;
+      const end = url.searchParams.get('end') || undefined;
+      const encoding = url.searchParams.get('encoding') || 'utf8';
+      if ((start && Number.isNaN(Date.parse(start))) || (end && Number.isNaN(Date.parse(end)))) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'start / end は ISO 8601 形式で指定してください');
+      }
+      if (encoding !== 'utf8' && encoding !== 'sjis') {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'encoding は utf8 または sjis を指定してください');
+      }
+      const filter = parseIcLogFilter(url);
+      if (!filter) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'driver_id は数値で指定してください');
+      }
+
+      const names = await driverCache.getDriverNames();
+      const logs = grpcClient.streamIcLog(start, end, request.signal);
+      const rows = filterRows(mapRows(logs, (log) => ({
+        ...log,
+        driver_name: log.driver_id !== null ? names.get(log.driver_id) : undefined,
+      })), filter);
+      const format = exportMatch[1] as 'csv' | 'xlsx';
+      // ファイル名の日付は日本時間
+      const range = [start, end].filter((d) => d).map((d) => jstDate(Date.parse(d!)).replace(/-/g, '')).join('-');
+      const filename = `ic_log${range ? `_${range}` : ''}.${format}`;
+      return await exportResponse(rows, format, encoding as CsvEncoding, filename);
+    }
+
+    // 体温測定を伴わないICタッチ（測定漏れの確認用）
+    // 続きは X-Next-Offset ヘッダーの値を offset に指定して取得する（最後まで取得したらヘッダーなし）
+    if (path === '/api/ic_log/without_tmp' && request.method === 'GET') {
+      const limit = parseInt(url.searchParams.get('limit') || '100');
+      const offset = parseInt(url.searchParams.get('offset') || '0');
+      const start = url.searchParams.get('start') || undefined;
+      const filter = parseIcLogFilter(url);
+      if (Number.isNaN(limit) || Number.isNaN(offset) || !filter) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'limit / offset / driver_id は数値で指定してください');
+      }
+      if (limit <= 0 || offset < 0) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'limit は正の数値、offset は0以上の数値で指定してください');
+      }
+
+      // 絞り込みはページに切り出す前に行う（絞り込み後も limit 件ずつ返す）
+      const [{ rows, nextOffset }, names] = await Promise.all([
+        collectMatching((pageLimit, pageOffset) => grpcClient.getIcLogWithoutTmp(pageLimit, pageOffset, start), filter, limit, offset),
+        driverCache.getDriverNames(),
+      ]);
+      const response = jsonResponse(rows.map((log) => ({ ...log, driver_name: log.driver_id !== null ? names.get(log.driver_id) : undefined })));
+      if (nextOffset !== null) {
+        response.headers.set('X-Next-Offset', String(nextOffset));
+      }
+      return response;
+    }
+
+    // 長期間のICログ（NDJSONで1件ずつ返す）
+    if (path === '/api/ic_log/stream' && request.method === 'GET') {
+      const start = url.searchParams.get('start') || undefined;
+      const end = url.searchParams.get('end') || undefined;
+      return await ndjsonResponse(grpcClient.streamIcLog(start, end, request.signal));
     }
 
     // Direct IC registration via Web NFC (gRPC)
@@ -79,10 +309,159 @@ export async function handleApiRequest(request: Request, env: Env): Promise<Resp
     // 最新のタイムカード記録（ドライバー名付き）
     if (path === '/api/ic_log_list' && request.method === 'GET') {
       const limit = parseInt(url.searchParams.get('limit') || '100');
-      const logs = await grpcClient.getLatestIcLogWithDriver(limit);
+      const logs = await withStaleFallback(request, () => grpcClient.getLatestIcLogWithDriver(limit));
       return jsonResponse(logs);
     }
 
+    // 体温センサーデータ（tmp/amb/dist は数値配列、driver_id で絞り込み可）
+    // 続きは X-Next-Offset ヘッダーの値を offset に指定して取得する（最後まで取得したらヘッダーなし）
+    if ((path === '/api/tmp_data' || path === '/api/tmp_data/without_pic') && request.method === 'GET') {
+      const limit = parseInt(url.searchParams.get('limit') || '30');
+      const offset = parseInt(url.searchParams.get('offset') || '0');
+      const driverIdParam = url.searchParams.get('driver_id');
+      const start = url.searchParams.get('start') || undefined;
+      if (Number.isNaN(limit) || Number.isNaN(offset) || (driverIdParam && Number.isNaN(parseInt(driverIdParam)))) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'limit / offset / driver_id は数値で指定してください');
+      }
+      if (limit <= 0 || offset < 0) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'limit は正の数値、offset は0以上の数値で指定してください');
+      }
+
+      // 絞り込みはページに切り出す前に行う（絞り込み後も limit 件ずつ返す）
+      const driverId = driverIdParam ? parseInt(driverIdParam) : null;
+      const [{ rows, nextOffset }, names] = await Promise.all([
+        collectMatching(
+          (pageLimit, pageOffset) => path === '/api/tmp_data'
+            ? grpcClient.getTmpData(pageLimit, pageOffset, start)
+            : grpcClient.getTmpDataWithoutPic(pageLimit, pageOffset, start),
+          (row) => driverId === null || row.driver_id === driverId,
+          limit,
+          offset
+        ),
+        driverCache.getDriverNames(),
+      ]);
+      const response = jsonResponse(rows.map((row) => ({ ...row, driver_name: names.get(row.driver_id) })));
+      if (nextOffset !== null) {
+        response.headers.set('X-Next-Offset', String(nextOffset));
+      }
+      return response;
+    }
+
+    // 今日（日本時間）の発熱しきい値以上の測定
+    if (path === '/api/alerts/temperature' && request.method === 'GET') {
+      const threshold = getFeverThreshold(env);
+      const [rows, names] = await Promise.all([
+        grpcClient.getTmpData(1000, 0, startOfTodayJst()),
+        driverCache.getDriverNames(),
+      ]);
+      const alerts = rows
+        .filter((row) => isFever(row.max_tmp, threshold))
+        .map((row) => ({
+          date: row.date,
+          machine_ip: row.machine_ip,
+          driver_id: row.driver_id,
+          driver_name: names.get(row.driver_id),
+          temperature: row.max_tmp,
+        }));
+      return jsonResponse({ threshold, alerts });
+    }
+
+    // 月次勤怠レポート（month=YYYY-MM、省略時は今月）
+    if (path === '/api/reports/attendance' && request.method === 'GET') {
+      const month = url.searchParams.get('month') || currentMonthJst();
+      if (!isValidMonth(month)) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'month は YYYY-MM 形式で指定してください');
+      }
+      const range = fetchRangeJst(month);
+      const [logs, names] = await Promise.all([
+        grpcClient.getIcLog(range.start, range.end),
+        driverCache.getDriverNames(),
+      ]);
+      return jsonResponse(buildAttendanceReport(month, logs, names));
+    }
+
+    // 指紋認証ログ（端末ごとの表示用にドライバー名を付与）
+    if (path === '/api/finger_log' && request.method === 'GET') {
+      const start = url.searchParams.get('start') || undefined;
+      const end = url.searchParams.get('end') || undefined;
+      if ((start && Number.isNaN(Date.parse(start))) || (end && Number.isNaN(Date.parse(end)))) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'start / end は ISO 8601 形式で指定してください');
+      }
+      const [logs, names] = await Promise.all([
+        grpcClient.getFingerLog(start, end),
+        driverCache.getDriverNames(),
+      ]);
+      return jsonResponse(logs.map((log) => ({ ...log, driver_name: names.get(log.id) })));
+    }
+
+    // ログイン中のセッション一覧（current は自分のセッション）
+    if (path === '/api/sessions' && request.method === 'GET') {
+      const sessions = await listSessions(env);
+      return jsonResponse({
+        sessions: sessions.map((session) => ({ ...session, current: session.jti === user?.jti })),
+        total: sessions.length,
+      });
+    }
+
+    // ユーザーの全セッションを失効させる（全端末からログアウト）
+    if (path === '/api/sessions' && request.method === 'DELETE') {
+      const sub = url.searchParams.get('sub');
+      if (!sub) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'sub を指定してください');
+      }
+      return jsonResponse({ revoked: await revokeUserSessions(env, sub) });
+    }
+
+    const sessionMatch = path.match(/^\/api\/sessions\/([^/]+)$/);
+    if (sessionMatch && request.method === 'DELETE') {
+      const revoked = await revokeSession(env, decodeURIComponent(sessionMatch[1]));
+      if (revoked === 0) {
+        return errorResponse(404, 'NOT_FOUND', 'セッションが見つかりません');
+      }
+      return jsonResponse({ revoked });
+    }
+
+    // APIキー（キーそのものは作成・再発行のレスポンスでだけ返す）
+    if ((path === '/api/api_keys' || path.startsWith('/api/api_keys/')) && !env.AUTH_KV) {
+      return errorResponse(503, 'UNAVAILABLE', 'APIキーの保存先（AUTH_KV）が設定されていません');
+    }
+
+    if (path === '/api/api_keys' && request.method === 'GET') {
+      return jsonResponse({ api_keys: await listApiKeys(env.AUTH_KV!), scopes: API_KEY_SCOPES });
+    }
+
+    if (path === '/api/api_keys' && request.method === 'POST') {
+      const body = await request.json() as { name?: string; scopes?: string[] };
+      const name = body.name?.trim();
+      if (!name) {
+        return errorResponse(400, 'INVALID_ARGUMENT', 'name を指定してください');
+      }
+      if (name.length > API_KEY_NAME_MAX_LENGTH) {
+        return errorResponse(400, 'INVALID_ARGUMENT', `name は${API_KEY_NAME_MAX_LENGTH}文字以内で指定してください`);
+      }
+      if (!Array.isArray(body.scopes) || body.scopes.length === 0 || !body.scopes.every(isApiScope)) {
+        return errorResponse(400, 'INVALID_ARGUMENT', `scopes は ${Object.keys(API_KEY_SCOPES).join(' / ')} から選んでください`);
+      }
+      const created = await createApiKey(env.AUTH_KV!, name, body.scopes, user?.email || user?.name || 'unknown');
+      return jsonResponse(created, 201);
+    }
+
+    const apiKeyMatch = path.match(/^\/api\/api_keys\/([^/]+)(\/rotate)?$/);
+    if (apiKeyMatch && apiKeyMatch[2] && request.method === 'POST') {
+      const rotated = await rotateApiKey(env.AUTH_KV!, decodeURIComponent(apiKeyMatch[1]), user?.email || user?.name || 'unknown');
+      if (!rotated) {
+        return errorResponse(404, 'NOT_FOUND', 'APIキーが見つかりません');
+      }
+      return jsonResponse(rotated);
+    }
+
+    if (apiKeyMatch && !apiKeyMatch[2] && request.method === 'DELETE') {
+      if (!(await revokeApiKey(env.AUTH_KV!, decodeURIComponent(apiKeyMatch[1])))) {
+        return errorResponse(404, 'NOT_FOUND', 'APIキーが見つかりません');
+      }
+      return jsonResponse({ revoked: true });
+    }
+
     // 接続中のSocket.IOクライアント一覧
     if (path === '/api/clients' && request.method === 'GET') {
       const clients = await grpcClient.getClients();
@@ -95,13 +474,22 @@ export async function handleApiRequest(request: Request, env: Env): Promise<Resp
       return jsonResponse(version);
     }
 
-    return new Response('Not found', { status: 404 });
+    return errorResponse(404, 'NOT_FOUND', 'APIが見つかりません');
   } catch (error) {
     console.error('API error:', error);
-    return jsonResponse({
-      error: error instanceof Error ? error.message : 'Internal server error'
-    }, 500);
+    return toErrorResponse(error);
+  }
+}
+
+// ICログの driver_id / machine_ip 絞り込み（driver_id が数値でなければ null）
+function parseIcLogFilter(url: URL): ((log: IcLogDetailRow) => boolean) | null {
+  const driverIdParam = url.searchParams.get('driver_id');
+  const machineIp = url.searchParams.get('machine_ip');
+  const driverId = driverIdParam ? parseInt(driverIdParam) : null;
+  if (Number.isNaN(driverId)) {
+    return null;
   }
+  return (log) => (driverId === null || log.driver_id === driverId) && (!machineIp || log.machine_ip === machineIp);
 }
 
 function jsonResponse(data: unknown, status = 200): Response {
@@ -110,3 +498,113 @@ function jsonResponse(data: unknown, status = 200): Response {
     headers: { 'Content-Type': 'application/json' },
   });
 }
+
+// JSON with an ETag so the browser can revalidate with If-None-Match (304)
+async function etagJsonResponse(request: Request, data: unknown): Promise<Response> {
+  const body = JSON.stringify(data);
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+  const hash = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+  const etag = `"${hash}"`;
+  const headers = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'private, no-cache',
+    'ETag': etag,
+  };
+
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(body, { headers });
+}
+
+// 撮影済みの写真は変わらないので ETag はパスから作り、再検証はバックエンドに問い合わせずに 304 を返す
+async function pictureResponse(request: Request, key: string, load: () => Promise<Picture | null>): Promise<Response> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(key));
+  const hash = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+  const etag = `"${hash}"`;
+  const headers: Record<string, string> = {
+    'Cache-Control': 'private, max-age=31536000, immutable',
+    'ETag': etag,
+  };
+
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const picture = await load();
+  if (!picture) {
+    return errorResponse(404, 'NOT_FOUND', '写真が見つかりません');
+  }
+  headers['Content-Type'] = picture.contentType;
+  return new Response(picture.bytes, { headers });
+}
+
+function pictureUrl(row: { date: string; machine_ip: string }, cam: 1 | 2 | 'ic'): string {
+  return `/api/pic/${encodeURIComponent(row.date)}/${encodeURIComponent(row.machine_ip)}/${cam}`;
+}
+
+// 体温測定時・ID読み取り時の写真をキャッシュする（/api/pic/... で取得できるように）
+async function storePicTmpPictures(row: PicTmpRow): Promise<void> {
+  await Promise.all([
+    ...(row.pic_data_1 ? [storePicture(pictureUrl(row, 1), row.pic_data_1)] : []),
+    ...(row.pic_data_2 ? [storePicture(pictureUrl(row, 2), row.pic_data_2)] : []),
+  ]);
+}
+
+// 写真の base64 を /api/pic/... の URL に置き換える（JSON を軽くしてブラウザにキャッシュさせる）
+function withPictureUrls(row: PicTmpRow) {
+  const { pic_data_1, pic_data_2, ...rest } = row;
+  return {
+    ...rest,
+    pic_url_1: pic_data_1 ? pictureUrl(row, 1) : null,
+    pic_url_2: pic_data_2 ? pictureUrl(row, 2) : null,
+  };
+}
+
+async function* mapRows<T, U>(rows: AsyncIterable<T>, fn: (row: T) => U | Promise<U>): AsyncGenerator<U> {
+  for await (const row of rows) {
+    yield await fn(row);
+  }
+}
+
+async function* filterRows<T>(rows: AsyncIterable<T>, predicate: (row: T) => boolean): AsyncGenerator<T> {
+  for await (const row of rows) {
+    if (predicate(row)) yield row;
+  }
+}
+
+// Newline-delimited JSON, one row per line as it arrives from the backend.
+// The first row is awaited up front so that failures before any data map to a
+// proper HTTP status; later errors are reported as a final {"error": ...} line.
+async function ndjsonResponse(rows: AsyncIterable<unknown>): Promise<Response> {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+  let first: IteratorResult<unknown> | null = await iterator.next();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = first ?? await iterator.next();
+        first = null;
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(JSON.stringify(value) + '\n'));
+      } catch (error) {
+        console.error('API stream error:', error);
+        controller.enqueue(encoder.encode(JSON.stringify(toApiError(error).body) + '\n'));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: { 'Content-Type': 'application/x-ndjson' },
+  });
+}
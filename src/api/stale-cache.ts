@@ -0,0 +1,81 @@
+// 読み取りAPIの成功したレスポンスを（同じURLにつき1分に1回まで）Cache APIに保存し、
+// バックエンド停止時に stale: true 付きで返す
+
+import { Code, GrpcError } from '../grpc-error';
+import { toApiError, type ApiErrorBody } from './errors';
+
+const CACHE_ORIGIN = 'https://timecard-stale.internal';
+const CACHE_TTL = 7 * 24 * 60 * 60; // 7日
+// 保存済みの控えがこれより新しければ上書きしない（読み取りのたびに Cache API へ書き込まない）
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+// バックエンド停止とみなすステータス（サーキットブレーカー open も UNAVAILABLE）
+const DEGRADED_CODES = new Set<Code>([Code.Unavailable, Code.DeadlineExceeded]);
+
+export interface StaleBody<T> {
+  stale: true;
+  cached_at: string;
+  data: T;
+  error: ApiErrorBody['error'];
+}
+
+interface CachedEntry<T> {
+  cached_at: string;
+  data: T;
+}
+
+// キャッシュキー → この isolate で最後に保存した時刻
+const savedAt = new Map<string, number>();
+
+export async function withStaleFallback<T>(request: Request, load: () => Promise<T>): Promise<T | StaleBody<T>> {
+  const url = new URL(request.url);
+  const cacheKey = new Request(CACHE_ORIGIN + url.pathname + url.search);
+
+  try {
+    const data = await load();
+    await saveLastGood(cacheKey, data);
+    return data;
+  } catch (error) {
+    if (!(error instanceof GrpcError) || !DEGRADED_CODES.has(error.code)) {
+      throw error;
+    }
+    const cached = await loadLastGood<T>(cacheKey);
+    if (!cached) {
+      throw error;
+    }
+    console.warn(`Backend degraded, serving stale ${url.pathname} from ${cached.cached_at}`);
+    return { stale: true, cached_at: cached.cached_at, data: cached.data, error: toApiError(error).body.error };
+  }
+}
+
+async function saveLastGood<T>(cacheKey: Request, data: T): Promise<void> {
+  const now = Date.now();
+  const last = savedAt.get(cacheKey.url);
+  if (last !== undefined && now - last < REFRESH_INTERVAL_MS) {
+    return;
+  }
+  for (const [key, time] of savedAt) {
+    if (now - time >= REFRESH_INTERVAL_MS) savedAt.delete(key);
+  }
+  savedAt.set(cacheKey.url, now);
+
+  const entry: CachedEntry<T> = { cached_at: new Date(now).toISOString(), data };
+  try {
+    await caches.default.put(cacheKey, new Response(JSON.stringify(entry), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': `max-age=${CACHE_TTL}` },
+    }));
+  } catch (e) {
+    savedAt.delete(cacheKey.url);
+    console.error('Failed to store last good response:', e);
+  }
+}
+
+async function loadLastGood<T>(cacheKey: Request): Promise<CachedEntry<T> | null> {
+  try {
+    const cached = await caches.default.match(cacheKey);
+    return cached ? await cached.json() as CachedEntry<T> : null;
+  } catch (e) {
+    console.error('Failed to read last good response:', e);
+    return null;
+  }
+}
@@ -0,0 +1,176 @@
+// APIキー（Pythonの端末クライアント・スクリプト用）
+// /api/* に Authorization: Bearer tck_... で送る。キーは作成時に一度だけ表示し、KV には SHA-256 だけを保存する
+// KV は結果整合のため、削除したキーが全拠点で使えなくなるまで最大1分ほどかかる
+// 最終利用日時はキーの記録とは別に api_key_used:{id} に保存し、認証時にキーの記録は書き換えない
+// （書き換えると削除・ローテーションと競合して、削除したキーが復活することがある）
+
+import type { Env, SessionPayload } from './types';
+import type { Permission } from './roles';
+
+export type ApiScope = Permission | 'broadcast';
+
+// 管理画面で選べるスコープ
+export const API_KEY_SCOPES: Record<ApiScope, string> = {
+  'read:ic_log': '打刻ログの参照',
+  'read:drivers': 'ドライバーの参照',
+  'write:drivers': 'ドライバーの再読み込み',
+  'read:photos': '写真の参照',
+  'read:attendance': '勤怠の参照',
+  'read:ic_registration': '未登録ICの参照',
+  'write:ic_registration': 'ICカードの登録・削除',
+  'read:clients': '接続端末の参照',
+  'admin:sessions': 'セッションの管理',
+  'admin:api_keys': 'APIキーの管理',
+  broadcast: 'ブラウザへのpush（/api/broadcast）',
+};
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  prefix: string; // 一覧で見分けるためのキーの先頭
+  created_at: string;
+  created_by: string;
+  last_used_at: string | null;
+}
+
+// 名前の最大文字数（キーの記録は KV のメタデータ（1024バイトまで）に保存する）
+export const API_KEY_NAME_MAX_LENGTH = 64;
+
+const KEY_PREFIX = 'tck_';
+const KV_PREFIX = 'api_key:';
+const USED_PREFIX = 'api_key_used:';
+// 最終利用日時の書き込み間隔（KV の書き込み回数を抑える）
+const LAST_USED_INTERVAL_MS = 5 * 60 * 1000;
+// isolate内で最後に最終利用日時を書き込んだ時刻（キーのID → ミリ秒）
+const lastUsedWrites = new Map<string, number>();
+
+async function hashKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function generateKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return KEY_PREFIX + btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function isApiScope(value: string): value is ApiScope {
+  return Object.prototype.hasOwnProperty.call(API_KEY_SCOPES, value);
+}
+
+export function getBearerApiKey(request: Request): string | null {
+  const match = request.headers.get('Authorization')?.match(/^Bearer\s+(tck_[A-Za-z0-9_-]+)$/);
+  return match ? match[1] : null;
+}
+
+// 有効なキーならキーの利用者を返す（スコープで権限を判定する）
+export async function authenticateApiKey(request: Request, env: Env): Promise<SessionPayload | null> {
+  const key = getBearerApiKey(request);
+  if (!key || !env.AUTH_KV) return null;
+
+  const kvKey = KV_PREFIX + (await hashKey(key));
+  const { metadata } = await env.AUTH_KV.getWithMetadata<ApiKeyRecord>(kvKey);
+  if (!metadata) return null;
+
+  const now = Date.now();
+  const lastWrite = lastUsedWrites.get(metadata.id);
+  if (lastWrite === undefined || now - lastWrite >= LAST_USED_INTERVAL_MS) {
+    lastUsedWrites.set(metadata.id, now);
+    try {
+      await env.AUTH_KV.put(USED_PREFIX + metadata.id, '', { metadata: { last_used_at: new Date(now).toISOString() } });
+    } catch (e) {
+      lastUsedWrites.delete(metadata.id);
+      console.error('Failed to record API key usage:', e);
+    }
+  }
+
+  const seconds = Math.floor(now / 1000);
+  return {
+    sub: `api_key:${metadata.id}`,
+    email: '',
+    name: metadata.name,
+    provider: 'api_key',
+    iat: seconds,
+    exp: seconds,
+    scopes: metadata.scopes,
+  };
+}
+
+export async function listApiKeys(kv: KVNamespace): Promise<ApiKeyRecord[]> {
+  const records: ApiKeyRecord[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<ApiKeyRecord>({ prefix: KV_PREFIX, cursor });
+    records.push(...page.keys.flatMap((entry) => (entry.metadata ? [entry.metadata] : [])));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  const lastUsed = new Map<string, string>();
+  do {
+    const page = await kv.list<{ last_used_at: string }>({ prefix: USED_PREFIX, cursor });
+    for (const entry of page.keys) {
+      if (entry.metadata) lastUsed.set(entry.name.slice(USED_PREFIX.length), entry.metadata.last_used_at);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return records
+    .map((record) => ({ ...record, last_used_at: lastUsed.get(record.id) ?? record.last_used_at }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+// 作成したキー（この時だけ平文で返す）と記録
+export async function createApiKey(
+  kv: KVNamespace,
+  name: string,
+  scopes: ApiScope[],
+  createdBy: string
+): Promise<{ key: string; api_key: ApiKeyRecord }> {
+  const key = generateKey();
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    name,
+    scopes,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    created_at: new Date().toISOString(),
+    created_by: createdBy,
+    last_used_at: null,
+  };
+  await kv.put(KV_PREFIX + (await hashKey(key)), '', { metadata: record });
+  return { key, api_key: record };
+}
+
+// 同じ名前・スコープで新しいキーを発行し、古いキーは削除する（見つからなければ null）
+export async function rotateApiKey(
+  kv: KVNamespace,
+  id: string,
+  rotatedBy: string
+): Promise<{ key: string; api_key: ApiKeyRecord } | null> {
+  const old = await findApiKey(kv, id);
+  if (!old) return null;
+
+  const created = await createApiKey(kv, old.record.name, old.record.scopes, rotatedBy);
+  await kv.delete(old.kvKey);
+  await kv.delete(USED_PREFIX + id);
+  return created;
+}
+
+export async function revokeApiKey(kv: KVNamespace, id: string): Promise<boolean> {
+  const found = await findApiKey(kv, id);
+  if (!found) return false;
+  await kv.delete(found.kvKey);
+  await kv.delete(USED_PREFIX + id);
+  return true;
+}
+
+async function findApiKey(kv: KVNamespace, id: string): Promise<{ kvKey: string; record: ApiKeyRecord } | null> {
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<ApiKeyRecord>({ prefix: KV_PREFIX, cursor });
+    const entry = page.keys.find((e) => e.metadata?.id === id);
+    if (entry) return { kvKey: entry.name, record: entry.metadata! };
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return null;
+}
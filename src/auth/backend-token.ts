@@ -0,0 +1,31 @@
+// バックエンド（Rust gRPCサーバー）に渡すユーザー情報トークン
+// x-timecard-user メタデータとして送り、IC登録・取消・削除の操作者を記録できるようにする
+// 署名にはセッションとは別の共有シークレット（GRPC_USER_SECRET）を使う
+
+import * as jose from 'jose';
+import type { SessionPayload } from './types';
+
+export const BACKEND_USER_HEADER = 'x-timecard-user';
+const BACKEND_TOKEN_DURATION = 60; // 1分（リクエストごとに発行）
+const BACKEND_TOKEN_ISSUER = 'timecard-cf-worker';
+const BACKEND_TOKEN_AUDIENCE = 'timecard-backend';
+
+export async function createBackendUserToken(
+  user: Pick<SessionPayload, 'sub' | 'email' | 'provider'>,
+  secret: string
+): Promise<string> {
+  const key = new TextEncoder().encode(secret);
+  const now = Math.floor(Date.now() / 1000);
+
+  return new jose.SignJWT({
+    email: user.email,
+    provider: user.provider,
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(user.sub)
+    .setIssuer(BACKEND_TOKEN_ISSUER)
+    .setAudience(BACKEND_TOKEN_AUDIENCE)
+    .setIssuedAt(now)
+    .setExpirationTime(now + BACKEND_TOKEN_DURATION)
+    .sign(key);
+}
@@ -0,0 +1,45 @@
+// /api/broadcast（バックエンドからのpush）の署名検証
+// バックエンドは BROADCAST_SECRET で "{タイムスタンプ}.{本文}" の HMAC-SHA256 を計算し、
+//   X-Timecard-Timestamp: UNIX時刻（秒）
+//   X-Timecard-Signature: sha256={16進数}
+// を付けて送る。タイムスタンプが前後5分を超えるリクエストは再送（リプレイ）とみなして拒否する
+
+import type { Env } from './types';
+
+export const BROADCAST_TIMESTAMP_HEADER = 'X-Timecard-Timestamp';
+export const BROADCAST_SIGNATURE_HEADER = 'X-Timecard-Signature';
+const MAX_CLOCK_SKEW = 5 * 60; // 5分
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+export async function signBroadcast(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): Promise<Record<string, string>> {
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), new TextEncoder().encode(`${timestamp}.${body}`));
+  const hex = [...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, '0')).join('');
+  return {
+    [BROADCAST_TIMESTAMP_HEADER]: String(timestamp),
+    [BROADCAST_SIGNATURE_HEADER]: `sha256=${hex}`,
+  };
+}
+
+// 正しく署名されていれば null、そうでなければ拒否の理由
+export async function verifyBroadcastSignature(request: Request, body: string, env: Env): Promise<string | null> {
+  if (!env.BROADCAST_SECRET) {
+    return 'BROADCAST_SECRET が設定されていません';
+  }
+
+  const timestamp = request.headers.get(BROADCAST_TIMESTAMP_HEADER);
+  const signature = request.headers.get(BROADCAST_SIGNATURE_HEADER)?.match(/^sha256=([0-9a-f]{64})$/i);
+  if (!timestamp || !signature) {
+    return '署名がありません';
+  }
+  if (!/^\d+$/.test(timestamp) || Math.abs(Math.floor(Date.now() / 1000) - parseInt(timestamp)) > MAX_CLOCK_SKEW) {
+    return 'タイムスタンプが有効期間外です';
+  }
+
+  const bytes = new Uint8Array(signature[1].match(/../g)!.map((h) => parseInt(h, 16)));
+  // crypto.subtle.verify は一定時間で比較する
+  const valid = await crypto.subtle.verify('HMAC', await importKey(env.BROADCAST_SECRET), bytes, new TextEncoder().encode(`${timestamp}.${body}`));
+  return valid ? null : '署名が正しくありません';
+}
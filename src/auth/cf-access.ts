@@ -65,3 +65,40 @@ export async function verifyCfAccessJwt(
     return null;
   }
 }
+
+// ユーザーの所属グループ（ロールの判定用）
+// Access の JWT にはグループが含まれないため get-identity で取得し、JWTごとにキャッシュする
+const groupsCache = new Map<string, { groups: string[]; fetchedAt: number }>();
+const GROUPS_CACHE_DURATION = 5 * 60 * 1000; // 5分
+
+export async function getCfAccessGroups(request: Request, env: Env): Promise<string[]> {
+  const jwt = request.headers.get('CF-Access-Jwt-Assertion');
+  if (!jwt || !env.CF_ACCESS_TEAM_NAME) return [];
+
+  const now = Date.now();
+  const cached = groupsCache.get(jwt);
+  if (cached && now - cached.fetchedAt < GROUPS_CACHE_DURATION) {
+    return cached.groups;
+  }
+
+  try {
+    const response = await fetch(`https://${env.CF_ACCESS_TEAM_NAME}.cloudflareaccess.com/cdn-cgi/access/get-identity`, {
+      headers: { Cookie: `CF_Authorization=${jwt}` },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch CF Access identity: ${response.status}`);
+    }
+    const identity = (await response.json()) as { groups?: Array<{ id: string; name: string }> };
+    const groups = (identity.groups ?? []).map((group) => group.name);
+
+    // 期限切れのエントリーを掃除する
+    for (const [key, entry] of groupsCache) {
+      if (now - entry.fetchedAt >= GROUPS_CACHE_DURATION) groupsCache.delete(key);
+    }
+    groupsCache.set(jwt, { groups, fetchedAt: now });
+    return groups;
+  } catch (e) {
+    console.error('CF Access groups lookup failed:', e);
+    return [];
+  }
+}
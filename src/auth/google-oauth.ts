@@ -28,6 +28,7 @@ export function handleGoogleLogin(request: Request, env: Env): Response {
   const state: OAuthState = {
     redirect,
     nonce: crypto.randomUUID(),
+    kiosk: url.searchParams.get('kiosk') === '1',
   };
   const stateStr = btoa(JSON.stringify(state));
 
@@ -133,7 +134,8 @@ export async function handleGoogleCallback(
       name: userInfo.name,
       provider: 'google',
     },
-    env
+    env,
+    { kiosk: state.kiosk }
   );
 
   const headers = new Headers();
@@ -1,8 +1,50 @@
 // 認証モジュール エクスポート
 
-export { authMiddleware, isPublicPath, createLoginRedirect } from './middleware';
-export { createSessionCookie, verifySessionCookie, clearSessionCookie, createTempToken, verifyTempToken } from './session';
-export { verifyCfAccessJwt } from './cf-access';
+export { authMiddleware, isPublicPath, isSameOriginRequest, createLoginRedirect } from './middleware';
+export {
+  createSessionCookie,
+  verifySessionCookie,
+  refreshSessionCookie,
+  clearSessionCookie,
+  isKioskSessionEnabled,
+  getSessionMaxExpiry,
+  createTempToken,
+  verifyTempToken,
+  type SessionOptions,
+} from './session';
+export { checkSession, listSessions, revokeSession, revokeUserSessions, type SessionRecord } from './session-store';
+export { verifyCfAccessJwt, getCfAccessGroups } from './cf-access';
+export {
+  ROLES,
+  ROLE_LABELS,
+  hasPermission,
+  getPagePermission,
+  getApiPermission,
+  resolveRole,
+  clearRoleConfigCache,
+  type Role,
+  type Permission,
+  type RoleConfig,
+} from './roles';
+export { createBackendUserToken, BACKEND_USER_HEADER } from './backend-token';
+export {
+  authenticateApiKey,
+  listApiKeys,
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey,
+  isApiScope,
+  API_KEY_SCOPES,
+  API_KEY_NAME_MAX_LENGTH,
+  type ApiKeyRecord,
+  type ApiScope,
+} from './api-keys';
+export {
+  signBroadcast,
+  verifyBroadcastSignature,
+  BROADCAST_TIMESTAMP_HEADER,
+  BROADCAST_SIGNATURE_HEADER,
+} from './broadcast-signature';
 export { handleGoogleLogin, handleGoogleCallback } from './google-oauth';
 export { handleLineworksLogin, handleLineworksCallback, type LineworksLoginOptions } from './lineworks-oauth';
 export type { Env, SessionPayload, AuthResult } from './types';
@@ -32,6 +32,7 @@ export function handleLineworksLogin(
   const state: OAuthState = {
     redirect,
     nonce: crypto.randomUUID(),
+    kiosk: url.searchParams.get('kiosk') === '1',
   };
   const stateStr = btoa(JSON.stringify(state));
 
@@ -161,7 +162,8 @@ export async function handleLineworksCallback(
       name,
       provider: 'lineworks',
     },
-    env
+    env,
+    { kiosk: state.kiosk }
   );
 
   const headers = new Headers();
@@ -2,7 +2,10 @@
 
 import type { Env, AuthResult, SessionPayload } from './types';
 import { verifyCfAccessJwt } from './cf-access';
-import { verifySessionCookie } from './session';
+import { refreshSessionCookie, verifySessionCookie } from './session';
+import { checkSession } from './session-store';
+import { resolveRole } from './roles';
+import { authenticateApiKey } from './api-keys';
 
 // 認証不要のパス
 const PUBLIC_PATHS = [
@@ -19,7 +22,7 @@ const PUBLIC_PATHS = [
   '/manifest.webmanifest',
   '/icon-192.png',
   '/icon-512.png',
-  '/api/broadcast', // バックエンドからのpush用
+  '/api/broadcast', // バックエンドからのpush用（Cookieではなく署名で認証）
   '/api/auth/check', // JS認証チェック用
 ];
 
@@ -31,22 +34,36 @@ export async function authMiddleware(
   request: Request,
   env: Env
 ): Promise<AuthResult> {
+  // 0. APIキー（/api/* のみ。Authorization ヘッダーがあればCookieは見ない）
+  if (new URL(request.url).pathname.startsWith('/api/') && request.headers.has('Authorization')) {
+    const apiKeyUser = await authenticateApiKey(request, env);
+    return apiKeyUser ? { authenticated: true, user: apiKeyUser } : { authenticated: false };
+  }
+
   // 1. Cloudflare Access JWT確認（最優先）
   const cfUser = await verifyCfAccessJwt(request, env);
   if (cfUser) {
-    return { authenticated: true, user: cfUser };
+    return { authenticated: true, user: { ...cfUser, role: await resolveRole(cfUser, request, env) } };
   }
 
-  // 2. セッションCookie確認
+  // 2. セッションCookie確認（失効していないか確認し、期限が近ければ延長する）
   const sessionUser = await verifySessionCookie(request, env);
-  if (sessionUser) {
-    return { authenticated: true, user: sessionUser };
+  if (sessionUser && (await checkSession(sessionUser, request, env))) {
+    const setCookie = await refreshSessionCookie(sessionUser, env);
+    const user = { ...sessionUser, role: await resolveRole(sessionUser, request, env) };
+    return { authenticated: true, user, ...(setCookie ? { setCookie } : {}) };
   }
 
   // 3. 未認証
   return { authenticated: false };
 }
 
+// Cookie で認証する状態変更（全端末からのログアウト等）は同じオリジンのページからの送信だけ受け付ける
+// （SameSite=Lax の Cookie は別サイトからのリンクで開かれた場合にも送られる）
+export function isSameOriginRequest(request: Request): boolean {
+  return request.headers.get('Origin') === new URL(request.url).origin;
+}
+
 export function createLoginRedirect(request: Request): Response {
   const url = new URL(request.url);
   const loginUrl = new URL('/login', url.origin);
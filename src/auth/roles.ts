@@ -0,0 +1,161 @@
+// ロールと権限
+// ロールは KV（AUTH_KV の "roles"）の設定と Cloudflare Access のグループから決め、
+// ページ・APIごとに必要な権限を PAGE_PERMISSIONS / API_PERMISSIONS で定義する
+
+import type { Env, SessionPayload } from './types';
+import { getCfAccessGroups } from './cf-access';
+
+// 権限の強い順
+export const ROLES = ['admin', 'office', 'viewer', 'driver'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: '管理者',
+  office: '事務',
+  viewer: '閲覧',
+  driver: 'ドライバー',
+};
+
+export type Permission =
+  | 'read:ic_log'
+  | 'read:drivers'
+  | 'write:drivers'
+  | 'read:photos'
+  | 'read:attendance'
+  | 'read:ic_registration'
+  | 'write:ic_registration'
+  | 'read:clients'
+  | 'admin:sessions'
+  | 'admin:api_keys';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'read:ic_log', 'read:drivers', 'write:drivers', 'read:photos', 'read:attendance',
+    'read:ic_registration', 'write:ic_registration', 'read:clients', 'admin:sessions', 'admin:api_keys',
+  ],
+  office: [
+    'read:ic_log', 'read:drivers', 'write:drivers', 'read:photos', 'read:attendance',
+    'read:ic_registration', 'write:ic_registration',
+  ],
+  viewer: ['read:ic_log', 'read:drivers', 'read:photos', 'read:attendance'],
+  driver: ['read:ic_log', 'read:drivers'],
+};
+
+// ページ（serveStaticContent のパス）ごとの必要な権限。ない場合は誰でも表示できる
+const PAGE_PERMISSIONS: Record<string, Permission> = {
+  '/': 'read:ic_log',
+  '/ic_log_list': 'read:ic_log',
+  '/finger_log': 'read:ic_log',
+  '/photos': 'read:photos',
+  '/pic_ic': 'read:photos',
+  '/attendance': 'read:attendance',
+  '/drivers': 'read:drivers',
+  '/ic_non_reg': 'write:ic_registration',
+  '/delete_ic': 'write:ic_registration',
+  '/clients': 'read:clients',
+  '/sessions': 'admin:sessions',
+  '/api_keys': 'admin:api_keys',
+};
+
+// APIごとの必要な権限（上から順に最初に一致したもの）。null はログインしていれば呼べる
+// ここにないAPIは誰も呼べないので、APIを追加したらここにも追加する
+const API_PERMISSIONS: Array<{ method: string; path: RegExp; permission: Permission | null }> = [
+  { method: 'POST', path: /^\/api\/drivers\/reload$/, permission: 'write:drivers' },
+  { method: 'GET', path: /^\/api\/(drivers|driver_id)$/, permission: 'read:drivers' },
+  { method: 'GET', path: /^\/api\/(pic_tmp|pic_tmp\/stream|pic_ic|alerts\/temperature)$/, permission: 'read:photos' },
+  { method: 'GET', path: /^\/api\/pic\//, permission: 'read:photos' },
+  { method: 'GET', path: /^\/api\/tmp_data(\/without_pic)?$/, permission: 'read:photos' },
+  { method: 'GET', path: /^\/api\/ic_non_reg$/, permission: 'read:ic_registration' },
+  { method: 'POST', path: /^\/api\/(ic_non_reg\/register|ic_non_reg\/cancel|ic\/register_direct|ic\/delete)$/, permission: 'write:ic_registration' },
+  { method: 'GET', path: /^\/api\/(ic_log|ic_log\/without_tmp|ic_log\/stream|ic_log_list|finger_log|export\/.*)$/, permission: 'read:ic_log' },
+  { method: 'GET', path: /^\/api\/reports\/attendance$/, permission: 'read:attendance' },
+  { method: 'GET', path: /^\/api\/clients$/, permission: 'read:clients' },
+  { method: '*', path: /^\/api\/sessions(\/|$)/, permission: 'admin:sessions' },
+  { method: '*', path: /^\/api\/api_keys(\/|$)/, permission: 'admin:api_keys' },
+  { method: 'GET', path: /^\/api\/version$/, permission: null },
+];
+
+// APIキーはロールではなくキーのスコープで判定する
+export function hasPermission(user: SessionPayload | undefined, permission: Permission): boolean {
+  if (user?.scopes) {
+    return user.scopes.includes(permission);
+  }
+  return !!user?.role && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+export function getPagePermission(path: string): Permission | undefined {
+  const page = path.replace(/\.html$/, '').replace(/-/g, '_');
+  return PAGE_PERMISSIONS[page === '/index' ? '/' : page];
+}
+
+// 一覧にないAPIは undefined
+export function getApiPermission(method: string, path: string): Permission | null | undefined {
+  return API_PERMISSIONS.find((rule) => (rule.method === '*' || rule.method === method) && rule.path.test(path))?.permission;
+}
+
+// KV の "roles" に保存する設定
+// emails のキーは ALLOWED_EMAILS と同じく完全一致、@で始まるものはドメイン
+export interface RoleConfig {
+  default?: Role;
+  emails?: Record<string, Role>;
+  cf_access_groups?: Record<string, Role>; // グループ名 → ロール
+}
+
+const ROLE_CONFIG_KEY = 'roles';
+// isolate内のメモリキャッシュ（設定変更は最大1分で反映）
+const ROLE_CONFIG_TTL = 60 * 1000;
+let roleConfigCache: { config: RoleConfig | null; loadedAt: number } | null = null;
+
+async function getRoleConfig(env: Env): Promise<RoleConfig | null> {
+  const now = Date.now();
+  if (roleConfigCache && now - roleConfigCache.loadedAt < ROLE_CONFIG_TTL) {
+    return roleConfigCache.config;
+  }
+  const config = env.AUTH_KV ? await env.AUTH_KV.get<RoleConfig>(ROLE_CONFIG_KEY, 'json') : null;
+  if (!config) {
+    console.warn(`Role config "${ROLE_CONFIG_KEY}" is not set in AUTH_KV; everyone is a viewer`);
+  }
+  roleConfigCache = { config, loadedAt: now };
+  return config;
+}
+
+// 設定変更を即時反映する（テスト・管理操作用）
+export function clearRoleConfigCache(): void {
+  roleConfigCache = null;
+}
+
+// メールの完全一致があればそのロール、なければドメインと CF Access グループのうち最も強いロール
+// 設定がなければ全員 viewer（管理者は KV の "roles" で指定する）
+export async function resolveRole(user: SessionPayload, request: Request, env: Env): Promise<Role> {
+  const config = await getRoleConfig(env);
+  if (!config) {
+    return 'viewer';
+  }
+
+  const email = user.email.toLowerCase();
+  const emails = Object.entries(config.emails ?? {}).map(([key, role]) => [key.trim().toLowerCase(), role] as const);
+  const exact = emails.find(([key]) => key === email);
+  if (exact && isRole(exact[1])) {
+    return exact[1];
+  }
+
+  const candidates = emails
+    .filter(([key]) => key.startsWith('@') && email.endsWith(key))
+    .map(([, role]) => role);
+  if (user.provider === 'cf_access' && config.cf_access_groups && Object.keys(config.cf_access_groups).length > 0) {
+    for (const group of await getCfAccessGroups(request, env)) {
+      const role = config.cf_access_groups[group];
+      if (role) candidates.push(role);
+    }
+  }
+
+  const roles = candidates.filter(isRole);
+  if (roles.length > 0) {
+    return roles.reduce((best, role) => (ROLES.indexOf(role) < ROLES.indexOf(best) ? role : best));
+  }
+  return config.default && isRole(config.default) ? config.default : 'viewer';
+}
+
+function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
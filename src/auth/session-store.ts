@@ -0,0 +1,101 @@
+// セッションストア（SessionStoreDO）の呼び出し
+// Cookie の署名が正しくても、ログアウト・強制ログアウトされたセッションは拒否する
+
+import type { Env, SessionPayload } from './types';
+import { getLongestSessionMaxAge, getSessionMaxExpiry } from './session';
+import type { RevokeRequest, SessionRecord, TouchRequest } from '../durable-objects/session-store';
+
+export type { SessionRecord };
+
+type SessionStoreEnv = Pick<Env, 'SESSION_STORE' | 'SESSION_MAX_DAYS' | 'KIOSK_SESSION_DAYS' | 'KIOSK_SESSION_MAX_DAYS'>;
+
+function getStub(env: SessionStoreEnv): DurableObjectStub {
+  return env.SESSION_STORE.get(env.SESSION_STORE.idFromName('main'));
+}
+
+// isolate内のメモリキャッシュ。有効と確認したセッションは30秒間 SessionStoreDO に問い合わせない
+// 失効はこの isolate では即時、他の isolate では最大30秒遅れて反映される
+const CHECK_CACHE_TTL = 30 * 1000;
+const checkedSessions = new Map<string, { sub: string; checkedAt: number }>();
+
+function toIso(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+// 有効なセッションなら最終アクセス（IP・ユーザーエージェント）を記録して true
+// jti のない（セッションストア導入前の）Cookie は失効させられないので拒否する
+export async function checkSession(user: SessionPayload, request: Request, env: Env): Promise<boolean> {
+  if (!user.jti) return false;
+
+  const now = Date.now();
+  const cached = checkedSessions.get(user.jti);
+  if (cached && now - cached.checkedAt < CHECK_CACHE_TTL) {
+    return true;
+  }
+
+  const body: TouchRequest = {
+    jti: user.jti,
+    sub: user.sub,
+    email: user.email,
+    name: user.name,
+    provider: user.provider,
+    kiosk: !!user.kiosk,
+    ip: request.headers.get('CF-Connecting-IP') || 'unknown',
+    user_agent: request.headers.get('User-Agent') || '',
+    auth_time: user.auth_time ?? user.iat,
+    expires_at: toIso(user.exp),
+    max_expires_at: toIso(getSessionMaxExpiry(user, env)),
+  };
+  try {
+    const response = await getStub(env).fetch('https://session-store/touch', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Session store returned ${response.status}`);
+    }
+    const { active } = await response.json<{ active: boolean }>();
+    if (active) {
+      for (const [jti, entry] of checkedSessions) {
+        if (now - entry.checkedAt >= CHECK_CACHE_TTL) checkedSessions.delete(jti);
+      }
+      checkedSessions.set(user.jti, { sub: user.sub, checkedAt: now });
+    }
+    return active;
+  } catch (e) {
+    // 失効を確認できない場合は通さない
+    console.error('Session check failed:', e);
+    return false;
+  }
+}
+
+export async function listSessions(env: SessionStoreEnv): Promise<SessionRecord[]> {
+  const response = await getStub(env).fetch('https://session-store/sessions');
+  const { sessions } = await response.json<{ sessions: SessionRecord[] }>();
+  return sessions;
+}
+
+// 1セッションを失効させる（ログアウト時は記録前のセッションも拒否できるよう期限（秒）を渡す）
+export async function revokeSession(env: SessionStoreEnv, jti: string, maxExpiry?: number): Promise<number> {
+  checkedSessions.delete(jti);
+  return revoke(env, { jti, ...(maxExpiry ? { max_expires_at: toIso(maxExpiry) } : {}) });
+}
+
+// ユーザーの全セッションを失効させる（全端末からログアウト）
+// それ以前のセッションがすべて期限切れになるまで、ユーザーの失効記録を残す
+export async function revokeUserSessions(env: SessionStoreEnv, sub: string): Promise<number> {
+  for (const [jti, entry] of checkedSessions) {
+    if (entry.sub === sub) checkedSessions.delete(jti);
+  }
+  const maxExpiry = Math.floor(Date.now() / 1000) + getLongestSessionMaxAge(env);
+  return revoke(env, { sub, max_expires_at: toIso(maxExpiry) });
+}
+
+async function revoke(env: SessionStoreEnv, body: RevokeRequest): Promise<number> {
+  const response = await getStub(env).fetch('https://session-store/revoke', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  const { revoked } = await response.json<{ revoked: number }>();
+  return revoked;
+}
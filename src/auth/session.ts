@@ -5,26 +5,78 @@ import type { Env, SessionPayload } from './types';
 
 const SESSION_COOKIE_NAME = 'tc_session';
 const SESSION_DURATION = 24 * 60 * 60; // 24時間
+const DAY = 24 * 60 * 60;
+const DEFAULT_SESSION_MAX_DAYS = 7;
+const DEFAULT_KIOSK_SESSION_DAYS = 30;
+const DEFAULT_KIOSK_SESSION_MAX_DAYS = 90;
+
+export interface SessionOptions {
+  kiosk?: boolean; // 「この端末でログインを維持」（共有PC用）
+  authTime?: number; // 延長時に元のログイン時刻を引き継ぐ
+  jti?: string; // 延長時にセッションIDを引き継ぐ
+}
+
+type SessionPolicyEnv = Pick<Env, 'SESSION_MAX_DAYS' | 'KIOSK_SESSION_DAYS' | 'KIOSK_SESSION_MAX_DAYS'>;
+
+interface SessionPolicy {
+  duration: number; // 最後に延長してからの有効期間（秒）
+  maxAge: number; // ログインからの最長有効期間（秒）
+}
+
+// 通常は24時間で切れ、使っている間は半分を過ぎるたびに延長する（最長 SESSION_MAX_DAYS）
+// 共有PCは KIOSK_SESSION_DAYS 使わなければ切れ、最長 KIOSK_SESSION_MAX_DAYS
+function getSessionPolicy(env: SessionPolicyEnv, kiosk: boolean): SessionPolicy {
+  if (kiosk && isKioskSessionEnabled(env)) {
+    return {
+      duration: days(env.KIOSK_SESSION_DAYS, DEFAULT_KIOSK_SESSION_DAYS),
+      maxAge: days(env.KIOSK_SESSION_MAX_DAYS, DEFAULT_KIOSK_SESSION_MAX_DAYS),
+    };
+  }
+  return { duration: SESSION_DURATION, maxAge: days(env.SESSION_MAX_DAYS, DEFAULT_SESSION_MAX_DAYS) };
+}
+
+export function isKioskSessionEnabled(env: SessionPolicyEnv): boolean {
+  return days(env.KIOSK_SESSION_DAYS, DEFAULT_KIOSK_SESSION_DAYS) > 0;
+}
+
+// どのセッションもログインからこれ以上は有効にならない期間（秒）
+export function getLongestSessionMaxAge(env: SessionPolicyEnv): number {
+  return Math.max(getSessionPolicy(env, false).maxAge, getSessionPolicy(env, true).maxAge);
+}
+
+function days(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseFloat(value) : NaN;
+  return Math.round((Number.isNaN(parsed) ? fallback : parsed) * DAY);
+}
 
 export async function createSessionCookie(
   payload: Omit<SessionPayload, 'iat' | 'exp'>,
-  env: Env
+  env: Env,
+  options: SessionOptions = {}
 ): Promise<string> {
   const secret = new TextEncoder().encode(env.JWT_SECRET);
   const now = Math.floor(Date.now() / 1000);
+  const kiosk = !!options.kiosk && isKioskSessionEnabled(env);
+  const policy = getSessionPolicy(env, kiosk);
+  const authTime = options.authTime ?? now;
+  // 最長有効期間を超えて延長しない
+  const exp = Math.min(now + policy.duration, authTime + policy.maxAge);
 
   const jwt = await new jose.SignJWT({
     sub: payload.sub,
     email: payload.email,
     name: payload.name,
     provider: payload.provider,
+    auth_time: authTime,
+    ...(kiosk ? { kiosk: true } : {}),
   })
     .setProtectedHeader({ alg: 'HS256' })
+    .setJti(options.jti ?? crypto.randomUUID())
     .setIssuedAt(now)
-    .setExpirationTime(now + SESSION_DURATION)
+    .setExpirationTime(exp)
     .sign(secret);
 
-  return `${SESSION_COOKIE_NAME}=${jwt}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${SESSION_DURATION}`;
+  return `${SESSION_COOKIE_NAME}=${jwt}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${Math.max(exp - now, 0)}`;
 }
 
 export async function verifySessionCookie(
@@ -40,10 +92,15 @@ export async function verifySessionCookie(
 
   try {
     const secret = new TextEncoder().encode(env.JWT_SECRET);
-    // 署名のみ検証、有効期限はチェックしない
-    const { payload } = await jose.jwtVerify(token, secret, {
-      currentDate: new Date(0), // 1970年に設定して期限切れを回避
-    });
+    const { payload } = await jose.jwtVerify(token, secret, { requiredClaims: ['iat', 'exp'] });
+
+    // auth_time のない古いCookieは発行時刻をログイン時刻とみなす
+    const authTime = typeof payload.auth_time === 'number' ? payload.auth_time : (payload.iat as number);
+    const kiosk = payload.kiosk === true;
+    const now = Math.floor(Date.now() / 1000);
+    if (now >= authTime + getSessionPolicy(env, kiosk).maxAge) {
+      return null;
+    }
 
     return {
       sub: payload.sub as string,
@@ -52,12 +109,34 @@ export async function verifySessionCookie(
       provider: payload.provider as SessionPayload['provider'],
       iat: payload.iat as number,
       exp: payload.exp as number,
+      ...(payload.jti ? { jti: payload.jti } : {}),
+      auth_time: authTime,
+      ...(kiosk ? { kiosk } : {}),
     };
   } catch {
     return null;
   }
 }
 
+// 有効期間の半分を過ぎたセッションを延長した Set-Cookie を返す（延長不要なら null）
+export async function refreshSessionCookie(user: SessionPayload, env: Env): Promise<string | null> {
+  if (user.provider === 'cf_access') return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  const policy = getSessionPolicy(env, !!user.kiosk);
+  const authTime = user.auth_time ?? user.iat;
+  if (now - user.iat < policy.duration / 2) return null;
+  // 最長有効期間で既に頭打ちなら延長しても変わらない
+  if (user.exp >= authTime + policy.maxAge) return null;
+
+  return createSessionCookie(user, env, { kiosk: user.kiosk, authTime, jti: user.jti });
+}
+
+// 延長しても超えないセッションの期限（秒）
+export function getSessionMaxExpiry(user: SessionPayload, env: Env): number {
+  return (user.auth_time ?? user.iat) + getSessionPolicy(env, !!user.kiosk).maxAge;
+}
+
 export function clearSessionCookie(): string {
   return `${SESSION_COOKIE_NAME}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`;
 }
@@ -1,15 +1,30 @@
 // 認証関連の型定義
 
+import type { Role } from './roles';
+import type { ApiScope } from './api-keys';
+
 export interface Env {
   WEBSOCKET_HIBERNATION: DurableObjectNamespace;
+  SESSION_STORE: DurableObjectNamespace;
   GRPC_API_URL: string;
+  GRPC_WEB_FORMAT?: string; // "text" (default) or "binary"
+  GRPC_TIMEOUT_MS?: string;
+  GRPC_MAX_ATTEMPTS?: string;
+  DRIVER_CACHE_TTL?: string;
+  FEVER_THRESHOLD?: string; // 発熱とみなす体温（デフォルト37.5）
   JWT_SECRET: string;
+  GRPC_USER_SECRET?: string; // バックエンドへのユーザー情報署名用
+  BROADCAST_SECRET?: string; // /api/broadcast の署名検証用（未設定なら受け付けない）
   GOOGLE_OAUTH_CONFIG: string; // JSON配列形式
   LINEWORKS_CONFIG: string; // JSON形式
   CF_ACCESS_TEAM_NAME: string;
   CF_ACCESS_AUD?: string;
   ALLOWED_EMAILS?: string; // カンマ区切りの許可メールリスト
   WOFF_ID?: string; // WOFF SDK用のID
+  AUTH_KV?: KVNamespace; // ロール設定（"roles"）
+  SESSION_MAX_DAYS?: string; // ログインからの最長有効期間（日、デフォルト7）
+  KIOSK_SESSION_DAYS?: string; // 「この端末でログインを維持」の有効期間（日、デフォルト30、0で無効）
+  KIOSK_SESSION_MAX_DAYS?: string; // 同上の最長有効期間（日、デフォルト90）
 }
 
 export interface GoogleOAuthConfig {
@@ -26,19 +41,26 @@ export interface SessionPayload {
   sub: string;
   email: string;
   name: string;
-  provider: 'google' | 'lineworks' | 'cf_access';
+  provider: 'google' | 'lineworks' | 'cf_access' | 'api_key';
   iat: number;
   exp: number;
+  jti?: string; // セッションID（セッションストアのキー）
+  auth_time?: number; // ログインした時刻（延長しても変わらない）
+  kiosk?: boolean; // 共有PC向けの長期セッション
+  role?: Role; // リクエストごとに resolveRole で決める（Cookieには含めない）
+  scopes?: ApiScope[]; // APIキーで認証した場合のみ
 }
 
 export interface AuthResult {
   authenticated: boolean;
   user?: SessionPayload;
+  setCookie?: string; // 延長したセッションCookie（レスポンスに付ける）
 }
 
 export interface OAuthState {
   redirect: string;
   nonce: string;
+  kiosk?: boolean;
 }
 
 // メール許可チェック（@で始まるエントリーはドメインフィルター）
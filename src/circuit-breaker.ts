@@ -0,0 +1,86 @@
+// サーキットブレーカー
+// バックエンド停止中に毎回デッドラインまで待たないよう、連続失敗で一定時間呼び出しを止める
+// 状態はメモリ上に保持（Worker再起動までは保持、isolateごと）
+
+import type { Transport } from '@connectrpc/connect';
+import { Code, GrpcError } from './grpc-error';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // この回数連続で失敗したら open にする
+  failureThreshold: number;
+  // open にしてから試験的に1件通す (half_open) までの時間
+  resetTimeoutMs: number;
+}
+
+// バックエンド障害とみなすステータス（NOT_FOUND等のアプリケーションエラーは数えない）
+const FAILURE_CODES = new Set<Code>([Code.Unavailable, Code.DeadlineExceeded, Code.Unknown]);
+
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half_open' : 'open';
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half_open' && this.probing)) {
+      throw new GrpcError(Code.Unavailable, 'backend unavailable (circuit open)');
+    }
+
+    const probe = state === 'half_open';
+    if (probe) this.probing = true;
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (e) {
+      if (e instanceof GrpcError && FAILURE_CODES.has(e.code)) {
+        this.recordFailure(probe);
+      } else if (e instanceof GrpcError && e.code !== Code.Canceled) {
+        // バックエンドは応答している
+        this.recordSuccess();
+      }
+      throw e;
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  private recordSuccess(): void {
+    if (this.openedAt !== null) {
+      console.log('Circuit breaker closed: backend recovered');
+    }
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  private recordFailure(probe: boolean): void {
+    this.failures++;
+    if (probe || (this.openedAt === null && this.failures >= this.options.failureThreshold)) {
+      console.warn(`Circuit breaker open after ${this.failures} failures`);
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// Transport wrapper: every RPC goes through the breaker.
+// For streams only establishing the response is guarded.
+export function withCircuitBreaker(transport: Transport, breaker: CircuitBreaker): Transport {
+  return {
+    unary: (method, signal, timeoutMs, header, input, contextValues) =>
+      breaker.run(() => transport.unary(method, signal, timeoutMs, header, input, contextValues)),
+    stream: (method, signal, timeoutMs, header, input, contextValues) =>
+      breaker.run(() => transport.stream(method, signal, timeoutMs, header, input, contextValues)),
+  };
+}
@@ -0,0 +1,166 @@
+// セッションストア Durable Object
+// セッションCookieの jti ごとに利用状況を記録し、失効（ログアウト・強制ログアウト）を管理する
+// 初めて使われたセッションはその場で登録し、失効したものは期限まで jti を残して拒否する
+
+export interface SessionRecord {
+  jti: string;
+  sub: string;
+  email: string;
+  name: string;
+  provider: string;
+  kiosk: boolean;
+  ip: string;
+  user_agent: string;
+  created_at: string;
+  last_seen: string;
+  expires_at: string; // 最後に確認したCookieの有効期限
+  max_expires_at: string; // 延長しても超えない期限（これを過ぎたら記録を消す）
+}
+
+export interface TouchRequest {
+  jti: string;
+  sub: string;
+  email: string;
+  name: string;
+  provider: string;
+  kiosk: boolean;
+  ip: string;
+  user_agent: string;
+  auth_time: number; // 秒
+  expires_at: string;
+  max_expires_at: string;
+}
+
+export interface RevokeRequest {
+  jti?: string;
+  sub?: string; // 指定するとそのユーザーの全セッション
+  max_expires_at?: string; // 記録のない jti、またはユーザーの失効記録を残す期限
+}
+
+// 「全端末からログアウト」の記録（revoked_user:{sub}）
+interface RevokedUser {
+  revoked_at: number; // 秒。これ以前にログインしたセッションを拒否する
+  max_expires_at: string; // これ以前のセッションがすべて期限切れになる日時（過ぎたら記録を消す）
+}
+
+// 最終アクセスの書き込みをまとめる間隔
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+export class SessionStoreDO implements DurableObject {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/touch' && request.method === 'POST') {
+      const active = await this.touch(await request.json<TouchRequest>());
+      return Response.json({ active });
+    }
+
+    if (url.pathname === '/sessions' && request.method === 'GET') {
+      return Response.json({ sessions: await this.list() });
+    }
+
+    if (url.pathname === '/revoke' && request.method === 'POST') {
+      const revoked = await this.revoke(await request.json<RevokeRequest>());
+      return Response.json({ revoked });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  // セッションが有効なら最終アクセスを更新して true
+  private async touch(session: TouchRequest): Promise<boolean> {
+    if (await this.state.storage.get(`revoked:${session.jti}`)) {
+      return false;
+    }
+    // 「全端末からログアウト」より前にログインしたセッションは拒否する
+    const revokedUser = await this.state.storage.get<RevokedUser>(`revoked_user:${session.sub}`);
+    if (revokedUser && session.auth_time <= revokedUser.revoked_at) {
+      return false;
+    }
+
+    const now = new Date();
+    const key = `session:${session.jti}`;
+    const record = await this.state.storage.get<SessionRecord>(key);
+    if (
+      record &&
+      record.ip === session.ip &&
+      record.user_agent === session.user_agent &&
+      record.expires_at >= session.expires_at &&
+      now.getTime() - Date.parse(record.last_seen) < LAST_SEEN_INTERVAL_MS
+    ) {
+      return true;
+    }
+
+    const { auth_time, ...fields } = session;
+    await this.state.storage.put<SessionRecord>(key, {
+      ...fields,
+      created_at: record?.created_at ?? new Date(auth_time * 1000).toISOString(),
+      last_seen: now.toISOString(),
+      expires_at: record && record.expires_at > session.expires_at ? record.expires_at : session.expires_at,
+    });
+    return true;
+  }
+
+  // 有効期限内のセッション（最終アクセスの新しい順）
+  private async list(): Promise<SessionRecord[]> {
+    const now = new Date().toISOString();
+    const sessions = await this.prune();
+    return [...sessions.values()]
+      .filter((record) => record.expires_at > now)
+      .sort((a, b) => b.last_seen.localeCompare(a.last_seen));
+  }
+
+  // 最長有効期間を過ぎた記録を消し、残ったセッションを返す（一覧の表示時と失効時に行う）
+  private async prune(): Promise<Map<string, SessionRecord>> {
+    const now = new Date().toISOString();
+    const sessions = await this.state.storage.list<SessionRecord>({ prefix: 'session:' });
+    const revoked = await this.state.storage.list<string>({ prefix: 'revoked:' });
+    const revokedUsers = await this.state.storage.list<RevokedUser>({ prefix: 'revoked_user:' });
+
+    const expired = [
+      ...[...sessions].filter(([, record]) => record.max_expires_at <= now).map(([key]) => key),
+      ...[...revoked].filter(([, maxExpiresAt]) => maxExpiresAt <= now).map(([key]) => key),
+      ...[...revokedUsers].filter(([, record]) => record.max_expires_at <= now).map(([key]) => key),
+    ];
+    // storage.delete は1回128件まで
+    for (let i = 0; i < expired.length; i += 128) {
+      await this.state.storage.delete(expired.slice(i, i + 128));
+    }
+    for (const key of expired) {
+      sessions.delete(key);
+    }
+    return sessions;
+  }
+
+  // 失効させたセッション数を返す
+  private async revoke({ jti, sub, max_expires_at }: RevokeRequest): Promise<number> {
+    const sessions = await this.prune();
+    const targets = [...sessions.values()].filter((record) => record.jti === jti || (sub && record.sub === sub));
+
+    if (sub) {
+      // 期限が渡されなければ、記録のあるセッションの最長の期限まで残す
+      const maxExpiresAt = max_expires_at ?? targets.reduce((max, record) => (record.max_expires_at > max ? record.max_expires_at : max), new Date().toISOString());
+      await this.state.storage.put<RevokedUser>(`revoked_user:${sub}`, {
+        revoked_at: Math.floor(Date.now() / 1000),
+        max_expires_at: maxExpiresAt,
+      });
+    }
+    if (jti && max_expires_at && !targets.some((record) => record.jti === jti)) {
+      // まだ記録のないセッション（ページを開く前にログアウトした等）
+      await this.state.storage.put(`revoked:${jti}`, max_expires_at);
+    }
+    for (const record of targets) {
+      await this.state.storage.put(`revoked:${record.jti}`, record.max_expires_at);
+    }
+    if (targets.length > 0) {
+      await this.state.storage.delete(targets.map((record) => `session:${record.jti}`));
+    }
+    return targets.length;
+  }
+}
@@ -1,9 +1,12 @@
 // WebSocket Hibernation Durable Object
 // Manages WebSocket connections with Hibernate API for cost-effective persistent connections
 
+import { detectFeverEvent, getFeverThreshold } from '../temperature';
+
 export interface Env {
   WEBSOCKET_HIBERNATION: DurableObjectNamespace;
   GRPC_API_URL: string;
+  FEVER_THRESHOLD?: string;
 }
 
 interface WebSocketSession {
@@ -69,6 +72,17 @@ export class WebSocketHibernationDO implements DurableObject {
   private async handleBroadcast(request: Request): Promise<Response> {
     const message = await request.text();
     this.broadcast(message);
+
+    // 体温がしきい値以上なら専用イベントも送る
+    const alert = detectFeverEvent(message, getFeverThreshold(this.env));
+    if (alert) {
+      console.warn(`Fever detected: ${alert.temperature} (${alert.ip} ${alert.id ?? ''})`);
+      this.broadcast(JSON.stringify({
+        type: 'temperature_alert',
+        data: alert,
+        timestamp: new Date().toISOString()
+      }));
+    }
     return new Response('OK');
   }
 
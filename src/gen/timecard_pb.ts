@@ -12,7 +12,7 @@ import type { Message } from "@bufbuild/protobuf";
  * Describes the file timecard.proto.
  */
 export const file_timecard: GenFile = /*@__PURE__*/
-  fileDesc("Cg50aW1lY2FyZC5wcm90bxIIdGltZWNhcmQiIgoGRHJpdmVyEgoKAmlkGAEgASgFEgwKBG5hbWUYAiABKAkiLwoKRHJpdmVyTGlzdBIhCgdkcml2ZXJzGAEgAygLMhAudGltZWNhcmQuRHJpdmVyIiQKD0RyaXZlcklkUmVxdWVzdBIRCglkcml2ZXJfaWQYASABKAUifQoFSUNMb2cSCgoCaWQYASABKAkSDAoEdHlwZRgCIAEoCRITCgZkZXRhaWwYAyABKAlIAIgBARIMCgRkYXRlGAQgASgJEhAKA2lpZBgFIAEoCUgBiAEBEhIKCm1hY2hpbmVfaXAYBiABKAlCCQoHX2RldGFpbEIGCgRfaWlkIrEBCg9JQ0xvZ1dpdGhEcml2ZXISCgoCaWQYASABKAkSDAoEdHlwZRgCIAEoCRITCgZkZXRhaWwYAyABKAlIAIgBARIMCgRkYXRlGAQgASgJEhAKA2lpZBgFIAEoCUgBiAEBEhIKCm1hY2hpbmVfaXAYBiABKAkSGAoLZHJpdmVyX25hbWUYByABKAlIAogBAUIJCgdfZGV0YWlsQgYKBF9paWRCDgoMX2RyaXZlcl9uYW1lIioKCUlDTG9nTGlzdBIdCgRsb2dzGAEgAygLMg8udGltZWNhcmQuSUNMb2ciPgoTSUNMb2dXaXRoRHJpdmVyTGlzdBInCgRsb2dzGAEgAygLMhkudGltZWNhcmQuSUNMb2dXaXRoRHJpdmVyIlwKB1BpY0RhdGESDAoEZGF0ZRgBIAEoCRILCgNjYW0YAiABKAUSEgoKcGljX2Jhc2U2NBgDIAEoCRIOCgZkZXRhaWwYBCABKAkSEgoKbWFjaGluZV9pcBgFIAEoCSIuCgtQaWNEYXRhTGlzdBIfCgRwaWNzGAEgAygLMhEudGltZWNhcmQuUGljRGF0YSL2AQoKUGljVG1wRGF0YRISCgptYWNoaW5lX2lwGAEgASgJEgsKA3RtcBgCIAEoCRILCgNhbWIYAyABKAkSDAoEZGlzdBgEIAEoCRIMCgRkYXRlGAUgASgJEhYKCWRyaXZlcl9pZBgGIAEoBUgAiAEBEhgKC2RyaXZlcl9uYW1lGAcgASgJSAGIAQESFwoKcGljX2RhdGFfMRgIIAEoCUgCiAEBEhcKCnBpY19kYXRhXzIYCSABKAlIA4gBAUIMCgpfZHJpdmVyX2lkQg4KDF9kcml2ZXJfbmFtZUINCgtfcGljX2RhdGFfMUINCgtfcGljX2RhdGFfMiIwCgpQaWNUbXBMaXN0EiIKBGRhdGEYASADKAsyFC50aW1lY2FyZC5QaWNUbXBEYXRhIqkBCglQaWNJQ0RhdGESCgoCaWQYASABKAkSDAoEdHlwZRgCIAEoCRITCgZkZXRhaWwYAyABKAlIAIgBARIMCgRkYXRlGAQgASgJEhAKA2lpZBgFIAEoCUgBiAEBEhIKCm1hY2hpbmVfaXAYBiABKAkSFwoKcGljX2Jhc2U2NBgHIAEoCUgCiAEBQgkKB19kZXRhaWxCBgoEX2lpZEINCgtfcGljX2Jhc2U2NCIuCglQaWNJQ0xpc3QSIQoEZGF0YRgBIAMoCzITLnRpbWVjYXJkLlBpY0lDRGF0YSJfCgdUbXBEYXRhEhIKCm1hY2hpbmVfaXAYASABKAkSCwoDdG1wGAIgASgJEgsKA2FtYhgDIAEoCRIMCgRkaXN0GAQgASgJEgwKBGRhdGUYBSABKAkSCgoCaWQYBiABKAUiLgoLVG1wRGF0YUxpc3QSHwoEZGF0YRgBIAMoCzIRLnRpbWVjYXJkLlRtcERhdGEiSgoJRmluZ2VyTG9nEgwKBGRhdGUYASABKAkSEgoKbWFjaGluZV9pcBgCIAEoCRIKCgJpZBgDIAEoBRIPCgdtZXNzYWdlGAQgASgJIjIKDUZpbmdlckxvZ0xpc3QSIQoEbG9ncxgBIAMoCzITLnRpbWVjYXJkLkZpbmdlckxvZyJ4CghJQ05vblJlZxIKCgJpZBgBIAEoCRIQCghkYXRldGltZRgCIAEoCRIUCgdkZWxldGVkGAMgASgISACIAQESGgoNcmVnaXN0ZXJlZF9pZBgEIAEoBUgBiAEBQgoKCF9kZWxldGVkQhAKDl9yZWdpc3RlcmVkX2lkIjEKDElDTm9uUmVnTGlzdBIhCgVpdGVtcxgBIAMoCzISLnRpbWVjYXJkLklDTm9uUmVnIjkKFVVwZGF0ZUlDTm9uUmVnUmVxdWVzdBINCgVpY19pZBgBIAEoCRIRCglkcml2ZXJfaWQYAiABKAUiJgoVQ2FuY2VsSUNOb25SZWdSZXF1ZXN0Eg0KBWljX2lkGAEgASgJIjkKFVJlZ2lzdGVyRGlyZWN0UmVxdWVzdBINCgVpY19pZBgBIAEoCRIRCglkcml2ZXJfaWQYAiABKAUiqAEKFlJlZ2lzdGVyRGlyZWN0UmVzcG9uc2USDwoHc3VjY2VzcxgBIAEoCBIPCgdtZXNzYWdlGAIgASgJEhIKBWljX2lkGAMgASgJSACIAQESFgoJZHJpdmVyX2lkGAQgASgFSAGIAQESGAoLZHJpdmVyX25hbWUYBSABKAlIAogBAUIICgZfaWNfaWRCDAoKX2RyaXZlcl9pZEIOCgxfZHJpdmVyX25hbWUiIAoPRGVsZXRlSWNSZXF1ZXN0Eg0KBWljX2lkGAEgASgJIjQKEERlbGV0ZUljUmVzcG9uc2USDwoHc3VjY2VzcxgBIAEoCBIPCgdtZXNzYWdlGAIgASgJIkEKCFZhcGlkS2V5EhIKCnB1YmxpY19rZXkYASABKAkSEwoLcHJpdmF0ZV9rZXkYAiABKAkSDAoEdXVpZBgDIAEoCSJfCg1UaW1lQ2FyZEV2ZW50Eg4KBnN0YXR1cxgBIAEoCRIPCgdtZXNzYWdlGAIgASgJEiEKBGRhdGEYAyABKAsyEy50aW1lY2FyZC5FdmVudERhdGESCgoCaXAYBCABKAkiiQEKCUV2ZW50RGF0YRIMCgR0aW1lGAEgASgJEhUKCHBpY19kYXRhGAIgASgMSACIAQESHAoPcGljX2RhdGFfYmFzZTY0GAMgASgJSAGIAQESDAoEbmFtZRgEIAEoCRIKCgJpZBgFIAEoBUILCglfcGljX2RhdGFCEgoQX3BpY19kYXRhX2Jhc2U2NCJeChBUaW1lUmFuZ2VSZXF1ZXN0EhcKCnN0YXJ0X2RhdGUYASABKAlIAIgBARIVCghlbmRfZGF0ZRgCIAEoCUgBiAEBQg0KC19zdGFydF9kYXRlQgsKCV9lbmRfZGF0ZSJ5ChFQYWdpbmF0aW9uUmVxdWVzdBISCgVsaW1pdBgBIAEoBUgAiAEBEhcKCnN0YXJ0X2RhdGUYAiABKAlIAYgBARITCgZvZmZzZXQYAyABKAVIAogBAUIICgZfbGltaXRCDQoLX3N0YXJ0X2RhdGVCCQoHX29mZnNldCIoCghUZXN0RGF0YRIKCgJpZBgBIAEoBRIQCghkYXRldGltZRgCIAEoBSIwCgxUZXN0RGF0YUxpc3QSIAoEZGF0YRgBIAMoCzISLnRpbWVjYXJkLlRlc3REYXRhImUKD0Nvbm5lY3RlZENsaWVudBIRCglzb2NrZXRfaWQYASABKAkSEgoKaXBfYWRkcmVzcxgCIAEoCRIUCgxjb25uZWN0ZWRfYXQYAyABKAkSFQoNbGFzdF9hY3Rpdml0eRgEIAEoCSJHCgpDbGllbnRMaXN0EioKB2NsaWVudHMYASADKAsyGS50aW1lY2FyZC5Db25uZWN0ZWRDbGllbnQSDQoFdG90YWwYAiABKAUiZAoLVmVyc2lvbkluZm8SEgoKZ2l0X2NvbW1pdBgBIAEoCRIXCg9naXRfY29tbWl0X2Z1bGwYAiABKAkSEgoKYnVpbGRfZGF0ZRgDIAEoCRIUCgxydXN0X3ZlcnNpb24YBCABKAkytwEKDURyaXZlclNlcnZpY2USNgoGR2V0QWxsEhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5GhQudGltZWNhcmQuRHJpdmVyTGlzdBI2CgdHZXRCeUlkEhkudGltZWNhcmQuRHJpdmVySWRSZXF1ZXN0GhAudGltZWNhcmQuRHJpdmVyEjYKBlJlbG9hZBIWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRoULnRpbWVjYXJkLkRyaXZlckxpc3Qy8AIKDElDTG9nU2VydmljZRI8CglHZXRSZWNlbnQSGi50aW1lY2FyZC5UaW1lUmFuZ2VSZXF1ZXN0GhMudGltZWNhcmQuSUNMb2dMaXN0EkAKDUdldFJlY2VudERlc2MSGi50aW1lY2FyZC5UaW1lUmFuZ2VSZXF1ZXN0GhMudGltZWNhcmQuSUNMb2dMaXN0EkoKDUdldFdpdGhEcml2ZXISGi50aW1lY2FyZC5UaW1lUmFuZ2VSZXF1ZXN0Gh0udGltZWNhcmQuSUNMb2dXaXRoRHJpdmVyTGlzdBJRChNHZXRMYXRlc3RXaXRoRHJpdmVyEhsudGltZWNhcmQuUGFnaW5hdGlvblJlcXVlc3QaHS50aW1lY2FyZC5JQ0xvZ1dpdGhEcml2ZXJMaXN0EkEKDUdldFdpdGhvdXRUbXASGy50aW1lY2FyZC5QYWdpbmF0aW9uUmVxdWVzdBoTLnRpbWVjYXJkLklDTG9nTGlzdDLBAQoOUGljRGF0YVNlcnZpY2USNwoGR2V0QWxsEhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5GhUudGltZWNhcmQuUGljRGF0YUxpc3QSOwoGR2V0VG1wEhsudGltZWNhcmQuUGFnaW5hdGlvblJlcXVlc3QaFC50aW1lY2FyZC5QaWNUbXBMaXN0EjkKBUdldElDEhsudGltZWNhcmQuUGFnaW5hdGlvblJlcXVlc3QaEy50aW1lY2FyZC5QaWNJQ0xpc3QykwEKDlRtcERhdGFTZXJ2aWNlEjwKBkdldEFsbBIbLnRpbWVjYXJkLlBhZ2luYXRpb25SZXF1ZXN0GhUudGltZWNhcmQuVG1wRGF0YUxpc3QSQwoNR2V0V2l0aG91dFBpYxIbLnRpbWVjYXJkLlBhZ2luYXRpb25SZXF1ZXN0GhUudGltZWNhcmQuVG1wRGF0YUxpc3QyVAoQRmluZ2VyTG9nU2VydmljZRJACglHZXRSZWNlbnQSGi50aW1lY2FyZC5UaW1lUmFuZ2VSZXF1ZXN0GhcudGltZWNhcmQuRmluZ2VyTG9nTGlzdDL4AgoPSUNOb25SZWdTZXJ2aWNlEjwKBkdldEFsbBIaLnRpbWVjYXJkLlRpbWVSYW5nZVJlcXVlc3QaFi50aW1lY2FyZC5JQ05vblJlZ0xpc3QSQQoGVXBkYXRlEh8udGltZWNhcmQuVXBkYXRlSUNOb25SZWdSZXF1ZXN0GhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5EkwKEUNhbmNlbFJlc2VydmF0aW9uEh8udGltZWNhcmQuQ2FuY2VsSUNOb25SZWdSZXF1ZXN0GhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5ElMKDlJlZ2lzdGVyRGlyZWN0Eh8udGltZWNhcmQuUmVnaXN0ZXJEaXJlY3RSZXF1ZXN0GiAudGltZWNhcmQuUmVnaXN0ZXJEaXJlY3RSZXNwb25zZRJBCghEZWxldGVJYxIZLnRpbWVjYXJkLkRlbGV0ZUljUmVxdWVzdBoaLnRpbWVjYXJkLkRlbGV0ZUljUmVzcG9uc2UySQoPVmFwaWRLZXlTZXJ2aWNlEjYKCEdlbmVyYXRlEhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5GhIudGltZWNhcmQuVmFwaWRLZXkyoQEKE05vdGlmaWNhdGlvblNlcnZpY2USQQoOQnJvYWRjYXN0RXZlbnQSFy50aW1lY2FyZC5UaW1lQ2FyZEV2ZW50GhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5EkcKE1Jlc29sdmVBbmRCcm9hZGNhc3QSFy50aW1lY2FyZC5UaW1lQ2FyZEV2ZW50GhcudGltZWNhcmQuVGltZUNhcmRFdmVudDJMCgtUZXN0U2VydmljZRI9CgtHZXRUZXN0RGF0YRIWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRoWLnRpbWVjYXJkLlRlc3REYXRhTGlzdDJHCg1DbGllbnRTZXJ2aWNlEjYKBkdldEFsbBIWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRoULnRpbWVjYXJkLkNsaWVudExpc3QyTQoOVmVyc2lvblNlcnZpY2USOwoKR2V0VmVyc2lvbhIWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRoVLnRpbWVjYXJkLlZlcnNpb25JbmZvYgZwcm90bzM", [file_google_protobuf_empty, file_google_protobuf_timestamp]);
+  fileDesc("Cg50aW1lY2FyZC5wcm90bxIIdGltZWNhcmQiIgoGRHJpdmVyEgoKAmlkGAEgASgFEgwKBG5hbWUYAiABKAkiLwoKRHJpdmVyTGlzdBIhCgdkcml2ZXJzGAEgAygLMhAudGltZWNhcmQuRHJpdmVyIiQKD0RyaXZlcklkUmVxdWVzdBIRCglkcml2ZXJfaWQYASABKAUifQoFSUNMb2cSCgoCaWQYASABKAkSDAoEdHlwZRgCIAEoCRITCgZkZXRhaWwYAyABKAlIAIgBARIMCgRkYXRlGAQgASgJEhAKA2lpZBgFIAEoCUgBiAEBEhIKCm1hY2hpbmVfaXAYBiABKAlCCQoHX2RldGFpbEIGCgRfaWlkIrEBCg9JQ0xvZ1dpdGhEcml2ZXISCgoCaWQYASABKAkSDAoEdHlwZRgCIAEoCRITCgZkZXRhaWwYAyABKAlIAIgBARIMCgRkYXRlGAQgASgJEhAKA2lpZBgFIAEoCUgBiAEBEhIKCm1hY2hpbmVfaXAYBiABKAkSGAoLZHJpdmVyX25hbWUYByABKAlIAogBAUIJCgdfZGV0YWlsQgYKBF9paWRCDgoMX2RyaXZlcl9uYW1lIioKCUlDTG9nTGlzdBIdCgRsb2dzGAEgAygLMg8udGltZWNhcmQuSUNMb2ciPgoTSUNMb2dXaXRoRHJpdmVyTGlzdBInCgRsb2dzGAEgAygLMhkudGltZWNhcmQuSUNMb2dXaXRoRHJpdmVyIlwKB1BpY0RhdGESDAoEZGF0ZRgBIAEoCRILCgNjYW0YAiABKAUSEgoKcGljX2Jhc2U2NBgDIAEoCRIOCgZkZXRhaWwYBCABKAkSEgoKbWFjaGluZV9pcBgFIAEoCSIuCgtQaWNEYXRhTGlzdBIfCgRwaWNzGAEgAygLMhEudGltZWNhcmQuUGljRGF0YSL2AQoKUGljVG1wRGF0YRISCgptYWNoaW5lX2lwGAEgASgJEgsKA3RtcBgCIAEoCRILCgNhbWIYAyABKAkSDAoEZGlzdBgEIAEoCRIMCgRkYXRlGAUgASgJEhYKCWRyaXZlcl9pZBgGIAEoBUgAiAEBEhgKC2RyaXZlcl9uYW1lGAcgASgJSAGIAQESFwoKcGljX2RhdGFfMRgIIAEoCUgCiAEBEhcKCnBpY19kYXRhXzIYCSABKAlIA4gBAUIMCgpfZHJpdmVyX2lkQg4KDF9kcml2ZXJfbmFtZUINCgtfcGljX2RhdGFfMUINCgtfcGljX2RhdGFfMiIwCgpQaWNUbXBMaXN0EiIKBGRhdGEYASADKAsyFC50aW1lY2FyZC5QaWNUbXBEYXRhIqkBCglQaWNJQ0RhdGESCgoCaWQYASABKAkSDAoEdHlwZRgCIAEoCRITCgZkZXRhaWwYAyABKAlIAIgBARIMCgRkYXRlGAQgASgJEhAKA2lpZBgFIAEoCUgBiAEBEhIKCm1hY2hpbmVfaXAYBiABKAkSFwoKcGljX2Jhc2U2NBgHIAEoCUgCiAEBQgkKB19kZXRhaWxCBgoEX2lpZEINCgtfcGljX2Jhc2U2NCIuCglQaWNJQ0xpc3QSIQoEZGF0YRgBIAMoCzITLnRpbWVjYXJkLlBpY0lDRGF0YSJfCgdUbXBEYXRhEhIKCm1hY2hpbmVfaXAYASABKAkSCwoDdG1wGAIgASgJEgsKA2FtYhgDIAEoCRIMCgRkaXN0GAQgASgJEgwKBGRhdGUYBSABKAkSCgoCaWQYBiABKAUiLgoLVG1wRGF0YUxpc3QSHwoEZGF0YRgBIAMoCzIRLnRpbWVjYXJkLlRtcERhdGEiSgoJRmluZ2VyTG9nEgwKBGRhdGUYASABKAkSEgoKbWFjaGluZV9pcBgCIAEoCRIKCgJpZBgDIAEoBRIPCgdtZXNzYWdlGAQgASgJIjIKDUZpbmdlckxvZ0xpc3QSIQoEbG9ncxgBIAMoCzITLnRpbWVjYXJkLkZpbmdlckxvZyJ4CghJQ05vblJlZxIKCgJpZBgBIAEoCRIQCghkYXRldGltZRgCIAEoCRIUCgdkZWxldGVkGAMgASgISACIAQESGgoNcmVnaXN0ZXJlZF9pZBgEIAEoBUgBiAEBQgoKCF9kZWxldGVkQhAKDl9yZWdpc3RlcmVkX2lkIjEKDElDTm9uUmVnTGlzdBIhCgVpdGVtcxgBIAMoCzISLnRpbWVjYXJkLklDTm9uUmVnIjkKFVVwZGF0ZUlDTm9uUmVnUmVxdWVzdBINCgVpY19pZBgBIAEoCRIRCglkcml2ZXJfaWQYAiABKAUiJgoVQ2FuY2VsSUNOb25SZWdSZXF1ZXN0Eg0KBWljX2lkGAEgASgJIjkKFVJlZ2lzdGVyRGlyZWN0UmVxdWVzdBINCgVpY19pZBgBIAEoCRIRCglkcml2ZXJfaWQYAiABKAUiqAEKFlJlZ2lzdGVyRGlyZWN0UmVzcG9uc2USDwoHc3VjY2VzcxgBIAEoCBIPCgdtZXNzYWdlGAIgASgJEhIKBWljX2lkGAMgASgJSACIAQESFgoJZHJpdmVyX2lkGAQgASgFSAGIAQESGAoLZHJpdmVyX25hbWUYBSABKAlIAogBAUIICgZfaWNfaWRCDAoKX2RyaXZlcl9pZEIOCgxfZHJpdmVyX25hbWUiIAoPRGVsZXRlSWNSZXF1ZXN0Eg0KBWljX2lkGAEgASgJIjQKEERlbGV0ZUljUmVzcG9uc2USDwoHc3VjY2VzcxgBIAEoCBIPCgdtZXNzYWdlGAIgASgJIkEKCFZhcGlkS2V5EhIKCnB1YmxpY19rZXkYASABKAkSEwoLcHJpdmF0ZV9rZXkYAiABKAkSDAoEdXVpZBgDIAEoCSJfCg1UaW1lQ2FyZEV2ZW50Eg4KBnN0YXR1cxgBIAEoCRIPCgdtZXNzYWdlGAIgASgJEiEKBGRhdGEYAyABKAsyEy50aW1lY2FyZC5FdmVudERhdGESCgoCaXAYBCABKAkiiQEKCUV2ZW50RGF0YRIMCgR0aW1lGAEgASgJEhUKCHBpY19kYXRhGAIgASgMSACIAQESHAoPcGljX2RhdGFfYmFzZTY0GAMgASgJSAGIAQESDAoEbmFtZRgEIAEoCRIKCgJpZBgFIAEoBUILCglfcGljX2RhdGFCEgoQX3BpY19kYXRhX2Jhc2U2NCJeChBUaW1lUmFuZ2VSZXF1ZXN0EhcKCnN0YXJ0X2RhdGUYASABKAlIAIgBARIVCghlbmRfZGF0ZRgCIAEoCUgBiAEBQg0KC19zdGFydF9kYXRlQgsKCV9lbmRfZGF0ZSJ5ChFQYWdpbmF0aW9uUmVxdWVzdBISCgVsaW1pdBgBIAEoBUgAiAEBEhcKCnN0YXJ0X2RhdGUYAiABKAlIAYgBARITCgZvZmZzZXQYAyABKAVIAogBAUIICgZfbGltaXRCDQoLX3N0YXJ0X2RhdGVCCQoHX29mZnNldCIoCghUZXN0RGF0YRIKCgJpZBgBIAEoBRIQCghkYXRldGltZRgCIAEoBSIwCgxUZXN0RGF0YUxpc3QSIAoEZGF0YRgBIAMoCzISLnRpbWVjYXJkLlRlc3REYXRhImUKD0Nvbm5lY3RlZENsaWVudBIRCglzb2NrZXRfaWQYASABKAkSEgoKaXBfYWRkcmVzcxgCIAEoCRIUCgxjb25uZWN0ZWRfYXQYAyABKAkSFQoNbGFzdF9hY3Rpdml0eRgEIAEoCSJHCgpDbGllbnRMaXN0EioKB2NsaWVudHMYASADKAsyGS50aW1lY2FyZC5Db25uZWN0ZWRDbGllbnQSDQoFdG90YWwYAiABKAUiZAoLVmVyc2lvbkluZm8SEgoKZ2l0X2NvbW1pdBgBIAEoCRIXCg9naXRfY29tbWl0X2Z1bGwYAiABKAkSEgoKYnVpbGRfZGF0ZRgDIAEoCRIUCgxydXN0X3ZlcnNpb24YBCABKAkywQEKDURyaXZlclNlcnZpY2USOwoGR2V0QWxsEhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5GhQudGltZWNhcmQuRHJpdmVyTGlzdCIDkAIBEjsKB0dldEJ5SWQSGS50aW1lY2FyZC5Ecml2ZXJJZFJlcXVlc3QaEC50aW1lY2FyZC5Ecml2ZXIiA5ACARI2CgZSZWxvYWQSFi5nb29nbGUucHJvdG9idWYuRW1wdHkaFC50aW1lY2FyZC5Ecml2ZXJMaXN0MokDCgxJQ0xvZ1NlcnZpY2USQQoJR2V0UmVjZW50EhoudGltZWNhcmQuVGltZVJhbmdlUmVxdWVzdBoTLnRpbWVjYXJkLklDTG9nTGlzdCIDkAIBEkUKDUdldFJlY2VudERlc2MSGi50aW1lY2FyZC5UaW1lUmFuZ2VSZXF1ZXN0GhMudGltZWNhcmQuSUNMb2dMaXN0IgOQAgESTwoNR2V0V2l0aERyaXZlchIaLnRpbWVjYXJkLlRpbWVSYW5nZVJlcXVlc3QaHS50aW1lY2FyZC5JQ0xvZ1dpdGhEcml2ZXJMaXN0IgOQAgESVgoTR2V0TGF0ZXN0V2l0aERyaXZlchIbLnRpbWVjYXJkLlBhZ2luYXRpb25SZXF1ZXN0Gh0udGltZWNhcmQuSUNMb2dXaXRoRHJpdmVyTGlzdCIDkAIBEkYKDUdldFdpdGhvdXRUbXASGy50aW1lY2FyZC5QYWdpbmF0aW9uUmVxdWVzdBoTLnRpbWVjYXJkLklDTG9nTGlzdCIDkAIBMtABCg5QaWNEYXRhU2VydmljZRI8CgZHZXRBbGwSFi5nb29nbGUucHJvdG9idWYuRW1wdHkaFS50aW1lY2FyZC5QaWNEYXRhTGlzdCIDkAIBEkAKBkdldFRtcBIbLnRpbWVjYXJkLlBhZ2luYXRpb25SZXF1ZXN0GhQudGltZWNhcmQuUGljVG1wTGlzdCIDkAIBEj4KBUdldElDEhsudGltZWNhcmQuUGFnaW5hdGlvblJlcXVlc3QaEy50aW1lY2FyZC5QaWNJQ0xpc3QiA5ACATKdAQoOVG1wRGF0YVNlcnZpY2USQQoGR2V0QWxsEhsudGltZWNhcmQuUGFnaW5hdGlvblJlcXVlc3QaFS50aW1lY2FyZC5UbXBEYXRhTGlzdCIDkAIBEkgKDUdldFdpdGhvdXRQaWMSGy50aW1lY2FyZC5QYWdpbmF0aW9uUmVxdWVzdBoVLnRpbWVjYXJkLlRtcERhdGFMaXN0IgOQAgEyWQoQRmluZ2VyTG9nU2VydmljZRJFCglHZXRSZWNlbnQSGi50aW1lY2FyZC5UaW1lUmFuZ2VSZXF1ZXN0GhcudGltZWNhcmQuRmluZ2VyTG9nTGlzdCIDkAIBMv0CCg9JQ05vblJlZ1NlcnZpY2USQQoGR2V0QWxsEhoudGltZWNhcmQuVGltZVJhbmdlUmVxdWVzdBoWLnRpbWVjYXJkLklDTm9uUmVnTGlzdCIDkAIBEkEKBlVwZGF0ZRIfLnRpbWVjYXJkLlVwZGF0ZUlDTm9uUmVnUmVxdWVzdBoWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRJMChFDYW5jZWxSZXNlcnZhdGlvbhIfLnRpbWVjYXJkLkNhbmNlbElDTm9uUmVnUmVxdWVzdBoWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRJTCg5SZWdpc3RlckRpcmVjdBIfLnRpbWVjYXJkLlJlZ2lzdGVyRGlyZWN0UmVxdWVzdBogLnRpbWVjYXJkLlJlZ2lzdGVyRGlyZWN0UmVzcG9uc2USQQoIRGVsZXRlSWMSGS50aW1lY2FyZC5EZWxldGVJY1JlcXVlc3QaGi50aW1lY2FyZC5EZWxldGVJY1Jlc3BvbnNlMkkKD1ZhcGlkS2V5U2VydmljZRI2CghHZW5lcmF0ZRIWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRoSLnRpbWVjYXJkLlZhcGlkS2V5MqEBChNOb3RpZmljYXRpb25TZXJ2aWNlEkEKDkJyb2FkY2FzdEV2ZW50EhcudGltZWNhcmQuVGltZUNhcmRFdmVudBoWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRJHChNSZXNvbHZlQW5kQnJvYWRjYXN0EhcudGltZWNhcmQuVGltZUNhcmRFdmVudBoXLnRpbWVjYXJkLlRpbWVDYXJkRXZlbnQyUQoLVGVzdFNlcnZpY2USQgoLR2V0VGVzdERhdGESFi5nb29nbGUucHJvdG9idWYuRW1wdHkaFi50aW1lY2FyZC5UZXN0RGF0YUxpc3QiA5ACATJMCg1DbGllbnRTZXJ2aWNlEjsKBkdldEFsbBIWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRoULnRpbWVjYXJkLkNsaWVudExpc3QiA5ACATJSCg5WZXJzaW9uU2VydmljZRJACgpHZXRWZXJzaW9uEhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5GhUudGltZWNhcmQuVmVyc2lvbkluZm8iA5ACAWIGcHJvdG8z", [file_google_protobuf_empty, file_google_protobuf_timestamp]);
 
 /**
  * @generated from message timecard.Driver
@@ -1,246 +1,404 @@
 // gRPC-Web client for Cloudflare Workers
 // Uses grpc-web protocol to communicate with Rust backend
 
-import { create, toBinary, fromBinary } from '@bufbuild/protobuf';
+import { createClient, type Client } from '@connectrpc/connect';
 import {
-  DriverListSchema,
-  DriverIdRequestSchema,
-  DriverSchema,
-  PicTmpListSchema,
-  PaginationRequestSchema,
-  ICNonRegListSchema,
-  TimeRangeRequestSchema,
-  UpdateICNonRegRequestSchema,
-  CancelICNonRegRequestSchema,
-  RegisterDirectRequestSchema,
-  RegisterDirectResponseSchema,
-  DeleteIcRequestSchema,
-  DeleteIcResponseSchema,
-  ICLogListSchema,
-  ICLogWithDriverListSchema,
-  ClientListSchema,
-  VersionInfoSchema,
+  DriverService,
+  PicDataService,
+  ICNonRegService,
+  ICLogService,
+  ClientService,
+  VersionService,
+  FingerLogService,
+  TmpDataService,
+  type ICLog,
+  type ICLogWithDriver,
+  type PicICData,
+  type PicTmpData,
+  type TmpData,
 } from './gen/timecard_pb';
-import { EmptySchema } from '@bufbuild/protobuf/wkt';
+import { createGrpcWebTransport, type RetryOptions } from './grpc-web-transport';
+import type { GrpcWebFormat } from './grpc-web-frames';
+import { CircuitBreaker, withCircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker';
+import { Code, GrpcError } from './grpc-error';
+import { parseSensorCsv } from './temperature';
+
+export interface GrpcWebClientOptions {
+  format?: GrpcWebFormat;
+  timeoutMs?: number;
+  retry?: Partial<RetryOptions>;
+  metadata?: HeadersInit;
+}
 
-export class GrpcWebClient {
-  private baseUrl: string;
-
-  constructor(baseUrl: string) {
-    // Remove trailing slash
-    this.baseUrl = baseUrl.replace(/\/$/, '');
-  }
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private async callGrpcWeb(
-    service: string,
-    method: string,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    requestSchema: any,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    responseSchema: any,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    request: any
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  ): Promise<any> {
-    const requestMessage = create(requestSchema, request);
-    const requestBytes = toBinary(requestSchema, requestMessage);
-
-    // gRPC-Web frame: 1 byte flag (0=uncompressed) + 4 bytes length + data
-    const frame = new Uint8Array(5 + requestBytes.length);
-    frame[0] = 0; // uncompressed
-    const len = requestBytes.length;
-    frame[1] = (len >> 24) & 0xff;
-    frame[2] = (len >> 16) & 0xff;
-    frame[3] = (len >> 8) & 0xff;
-    frame[4] = len & 0xff;
-    frame.set(requestBytes, 5);
-
-    const url = `${this.baseUrl}/${service}/${method}`;
-
-    // Use grpc-web-text (base64) format for better Cloudflare compatibility
-    const base64Frame = btoa(String.fromCharCode(...frame));
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/grpc-web-text',
-        'Accept': 'application/grpc-web-text',
-        'x-grpc-web': '1',
-      },
-      body: base64Frame,
-    });
-
-    if (!response.ok) {
-      throw new Error(`gRPC-Web request failed: ${response.status} ${response.statusText}`);
-    }
+const DEFAULT_TIMEOUT_MS = 10_000;
+// 写真データはサイズが大きいので長めに待つ
+const PHOTO_TIMEOUT_MS = 30_000;
+// 長期間の写真付き体温データを GetTmp で取得するときの1ページ
+const PIC_TMP_PAGE_SIZE = 30;
+// 期間指定で写真付き体温データを1ページ取得するときの GetTmp の最大呼び出し回数（超えたらエラー）
+const PIC_TMP_RANGE_MAX_REQUESTS = 40;
+// 期間省略時の取得範囲（バックエンドの TimeRangeRequest のデフォルトと同じ直近2日間）
+const DEFAULT_RANGE_MS = 2 * 24 * 60 * 60 * 1000;
+// 長期間のICログを GetWithDriver で区切って取得するときの1区間
+const IC_LOG_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+// 写真1枚を探すときに末尾から受信する件数（同時刻に複数端末で測定した場合の余裕）
+const PICTURE_LOOKUP_LIMIT = 10;
+// 絞り込みながら読むときに1リクエストで読む最大件数
+const FILTER_SCAN_LIMIT = 300;
+
+const DEFAULT_RETRY: RetryOptions = {
+  maxAttempts: 3,
+  initialBackoffMs: 200,
+  maxBackoffMs: 2_000,
+};
+
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+// バックエンドURLごとのサーキットブレーカー（リクエストをまたいで共有）
+const breakers = new Map<string, CircuitBreaker>();
+
+function getCircuitBreaker(baseUrl: string): CircuitBreaker {
+  let breaker = breakers.get(baseUrl);
+  if (!breaker) {
+    breaker = new CircuitBreaker(DEFAULT_CIRCUIT_BREAKER);
+    breakers.set(baseUrl, breaker);
+  }
+  return breaker;
+}
 
-    // Decode base64 response (grpc-web-text format)
-    let responseText = await response.text();
-
-    // Remove any whitespace/newlines that might be in the response
-    responseText = responseText.replace(/[\r\n\s]/g, '');
-
-    // grpc-web-text format: each frame is base64 encoded separately and concatenated
-    // We need to split by looking for base64 padding patterns
-    // A base64 string ending with = followed by another base64 string starting with non-padding
-    const allBytes: number[] = [];
-
-    // Split on '=' boundaries where next char is not '='
-    // This handles the case where message frame ends with = or == and trailer starts
-    let remaining = responseText;
-    while (remaining.length > 0) {
-      // Find the end of current base64 chunk
-      // Look for = followed by a non-= character (start of new base64)
-      let splitIndex = -1;
-      for (let i = 0; i < remaining.length - 1; i++) {
-        if (remaining[i] === '=' && remaining[i + 1] !== '=') {
-          // Check if this is a valid split point (= at end of base64)
-          const candidate = remaining.substring(0, i + 1);
-          if (candidate.length % 4 === 0) {
-            splitIndex = i + 1;
-            break;
-          }
-        }
-      }
+export interface DriverRow {
+  id: number;
+  name: string;
+}
 
-      let chunk: string;
-      if (splitIndex > 0) {
-        chunk = remaining.substring(0, splitIndex);
-        remaining = remaining.substring(splitIndex);
-      } else {
-        chunk = remaining;
-        remaining = '';
-      }
+export interface PicTmpRow {
+  date: string;
+  machine_ip: string;
+  id: number | undefined;
+  name: string | undefined;
+  detail: string;
+  max_tmp: number | null;
+  pic_data_1: string | undefined;
+  pic_data_2: string | undefined;
+}
 
-      // Decode this chunk
-      try {
-        const binaryString = atob(chunk);
-        for (let i = 0; i < binaryString.length; i++) {
-          allBytes.push(binaryString.charCodeAt(i));
-        }
-      } catch {
-        // If decode fails, try the whole remaining string
-        const binaryString = atob(chunk + remaining);
-        for (let i = 0; i < binaryString.length; i++) {
-          allBytes.push(binaryString.charCodeAt(i));
-        }
-        break;
-      }
-    }
+export interface PicIcRow {
+  date: string;
+  machine_ip: string;
+  ic_id: string;
+  type: string;
+  detail: string | undefined;
+  driver_id: number | null;
+  pic_data: string | undefined;
+}
 
-    const responseBytes = new Uint8Array(allBytes);
+export interface TmpDataRow {
+  date: string;
+  machine_ip: string;
+  driver_id: number;
+  tmp: number[];
+  amb: number[];
+  dist: number[];
+  max_tmp: number | null;
+}
 
-    // Parse gRPC-Web response frames
-    if (responseBytes.length < 5) {
-      throw new Error('Invalid gRPC-Web response: too short');
-    }
+export interface FingerLogRow {
+  date: string;
+  machine_ip: string;
+  id: number;
+  message: string;
+}
 
-    let offset = 0;
-    let messageBytes: Uint8Array | null = null;
-
-    while (offset < responseBytes.length) {
-      if (offset + 5 > responseBytes.length) break;
-
-      const flag = responseBytes[offset];
-      const msgLen = (responseBytes[offset + 1] << 24) |
-                     (responseBytes[offset + 2] << 16) |
-                     (responseBytes[offset + 3] << 8) |
-                     responseBytes[offset + 4];
-
-      if (flag === 0x80) {
-        // Trailer frame - check for errors
-        const trailerBytes = responseBytes.slice(offset + 5, offset + 5 + msgLen);
-        const trailerText = new TextDecoder().decode(trailerBytes);
-        if (!trailerText.includes('grpc-status:0') && !trailerText.includes('grpc-status: 0')) {
-          const statusMatch = trailerText.match(/grpc-status:\s*(\d+)/);
-          if (statusMatch && statusMatch[1] !== '0') {
-            throw new Error(`gRPC error: ${trailerText}`);
-          }
-        }
-        break;
-      } else if (flag === 0x00) {
-        // Message frame
-        messageBytes = responseBytes.slice(offset + 5, offset + 5 + msgLen);
-      }
+export interface IcLogRow {
+  id: string;
+  ic_id: string;
+  driver_id: number | null;
+  datetime: string;
+}
+
+export interface IcLogDetailRow extends IcLogRow {
+  type: string;
+  detail: string | undefined;
+  machine_ip: string;
+  driver_name: string | undefined;
+}
+
+function toPicTmpRow(d: PicTmpData): PicTmpRow {
+  const tmp = parseSensorCsv(d.tmp);
+  return {
+    date: d.date,
+    machine_ip: d.machineIp,
+    id: d.driverId,
+    name: d.driverName,
+    detail: 'tmp inserted',
+    max_tmp: tmp.length > 0 ? Math.max(...tmp) : null,
+    pic_data_1: d.picData1,
+    pic_data_2: d.picData2,
+  };
+}
+
+function toPicIcRow(d: PicICData): PicIcRow {
+  return {
+    date: d.date,
+    machine_ip: d.machineIp,
+    ic_id: d.id,
+    type: d.type,
+    detail: d.detail,
+    driver_id: d.iid ? parseInt(d.iid) : null,
+    pic_data: d.picBase64,
+  };
+}
+
+function toTmpDataRow(d: TmpData): TmpDataRow {
+  const tmp = parseSensorCsv(d.tmp);
+  return {
+    date: d.date,
+    machine_ip: d.machineIp,
+    driver_id: d.id,
+    tmp,
+    amb: parseSensorCsv(d.amb),
+    dist: parseSensorCsv(d.dist),
+    max_tmp: tmp.length > 0 ? Math.max(...tmp) : null,
+  };
+}
+
+function toIcLogDetailRow(log: ICLog | ICLogWithDriver): IcLogDetailRow {
+  return {
+    id: log.id,
+    ic_id: log.id,
+    driver_id: log.iid ? parseInt(log.iid) : null,
+    datetime: log.date,
+    type: log.type,
+    detail: log.detail,
+    machine_ip: log.machineIp,
+    driver_name: log.$typeName === 'timecard.ICLogWithDriver' ? log.driverName : undefined,
+  };
+}
 
-      offset += 5 + msgLen;
+// startDate 以降を新しい順に返す一覧（GetTmp / GetIC）から、startDate ちょうどの行を含む末尾（最も古い側）を取得する
+// startDate は下限しか指定できないので、件数を limit=1 の問い合わせで倍々・二分探索で求めてから末尾だけ取得する
+async function fetchOldest<T>(fetchPage: (limit: number, offset: number) => Promise<T[]>): Promise<T[]> {
+  const first = await fetchPage(PICTURE_LOOKUP_LIMIT, 0);
+  if (first.length < PICTURE_LOOKUP_LIMIT) {
+    return first;
+  }
+
+  // 件数は low 以上 high 未満
+  let low = PICTURE_LOOKUP_LIMIT;
+  let high = PICTURE_LOOKUP_LIMIT * 2;
+  while ((await fetchPage(1, high - 1)).length > 0) {
+    low = high;
+    high *= 2;
+  }
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await fetchPage(1, mid - 1)).length > 0) {
+      low = mid;
+    } else {
+      high = mid;
     }
+  }
+  // 探している間に新しい行が増えると末尾がずれるので、その分も含めて取得する
+  return fetchPage(PICTURE_LOOKUP_LIMIT * 2, low - PICTURE_LOOKUP_LIMIT);
+}
 
-    if (!messageBytes || messageBytes.length === 0) {
-      return create(responseSchema);
+// 新しい順の一覧（GetIC / GetAll 等）を offset から順に読み、match に一致した行を limit 件と続きの offset（最後まで読んだら null）
+// バックエンドで絞り込めない条件でもページが欠けないようにする。1回に読むのは FILTER_SCAN_LIMIT 件までで、足りなければ途中の offset を返す
+export async function collectMatching<T>(
+  fetchPage: (limit: number, offset: number) => Promise<T[]>,
+  match: (row: T) => boolean,
+  limit: number,
+  offset: number
+): Promise<{ rows: T[]; nextOffset: number | null }> {
+  const rows: T[] = [];
+  let next = offset;
+  while (rows.length < limit && next - offset < FILTER_SCAN_LIMIT) {
+    const page = await fetchPage(limit, next);
+    for (const row of page) {
+      next++;
+      if (match(row)) rows.push(row);
+      if (rows.length === limit) break;
+    }
+    if (page.length < limit && rows.length < limit) {
+      return { rows, nextOffset: null };
     }
+  }
+  return { rows, nextOffset: next };
+}
 
-    return fromBinary(responseSchema, messageBytes);
+// 新しい順の一覧で、from - 1 件目が条件（isNewer）を満たすとき、from 以降で最初に満たさない行の offset
+// isNewer は offset の行が存在して条件を満たすか。倍々・二分探索で limit=1 の問い合わせだけにする
+async function skipNewer(isNewer: (offset: number) => Promise<boolean>, from: number): Promise<number> {
+  // isNewer(low) は true、isNewer(high) は false
+  let low = from - 1;
+  let high = from;
+  let step = 1;
+  while (await isNewer(high)) {
+    low = high;
+    step *= 2;
+    high = low + step;
+  }
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (await isNewer(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return high;
+}
+
+export class GrpcWebClient {
+  private drivers: Client<typeof DriverService>;
+  private picData: Client<typeof PicDataService>;
+  private icNonReg: Client<typeof ICNonRegService>;
+  private icLog: Client<typeof ICLogService>;
+  private clients: Client<typeof ClientService>;
+  private version: Client<typeof VersionService>;
+  private fingerLog: Client<typeof FingerLogService>;
+  private tmpData: Client<typeof TmpDataService>;
+
+  constructor(baseUrl: string, options: GrpcWebClientOptions = {}) {
+    const transport = withCircuitBreaker(createGrpcWebTransport({
+      baseUrl,
+      format: options.format,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      retry: { ...DEFAULT_RETRY, ...options.retry },
+      metadata: options.metadata,
+    }), getCircuitBreaker(baseUrl));
+    this.drivers = createClient(DriverService, transport);
+    this.picData = createClient(PicDataService, transport);
+    this.icNonReg = createClient(ICNonRegService, transport);
+    this.icLog = createClient(ICLogService, transport);
+    this.clients = createClient(ClientService, transport);
+    this.version = createClient(VersionService, transport);
+    this.fingerLog = createClient(FingerLogService, transport);
+    this.tmpData = createClient(TmpDataService, transport);
   }
 
   // Driver Service
-  async getDrivers(): Promise<Array<{ id: number; name: string }>> {
-    const response = await this.callGrpcWeb(
-      'timecard.DriverService',
-      'GetAll',
-      EmptySchema,
-      DriverListSchema,
-      {}
-    );
-    return response.drivers.map((d: { id: number; name: string }) => ({ id: d.id, name: d.name }));
+  async getDrivers(): Promise<DriverRow[]> {
+    const response = await this.drivers.getAll({});
+    return response.drivers.map((d) => ({ id: d.id, name: d.name }));
   }
 
-  async getDriverById(driverId: number): Promise<Array<{ id: number; name: string }>> {
-    const response = await this.callGrpcWeb(
-      'timecard.DriverService',
-      'GetById',
-      DriverIdRequestSchema,
-      DriverSchema,
-      { driverId }
-    );
+  async getDriverById(driverId: number): Promise<DriverRow[]> {
+    const response = await this.drivers.getById({ driverId });
     return [{ id: response.id, name: response.name }];
   }
 
-  async reloadDrivers(): Promise<Array<{ id: number; name: string }>> {
-    const response = await this.callGrpcWeb(
-      'timecard.DriverService',
-      'Reload',
-      EmptySchema,
-      DriverListSchema,
-      {}
-    );
-    return response.drivers.map((d: { id: number; name: string }) => ({ id: d.id, name: d.name }));
+  async reloadDrivers(): Promise<DriverRow[]> {
+    const response = await this.drivers.reload({});
+    return response.drivers.map((d) => ({ id: d.id, name: d.name }));
   }
 
   // PicData Service
-  async getPicTmp(limit: number = 30, startDate?: string): Promise<Array<{
-    date: string;
-    machine_ip: string;
-    id: number | undefined;
-    name: string | undefined;
-    detail: string;
-    pic_data_1: string | undefined;
-    pic_data_2: string | undefined;
-  }>> {
-    const response = await this.callGrpcWeb(
-      'timecard.PicDataService',
-      'GetTmp',
-      PaginationRequestSchema,
-      PicTmpListSchema,
-      { limit, startDate }
+  async getPicTmp(limit: number = 30, startDate?: string): Promise<PicTmpRow[]> {
+    const response = await this.picData.getTmp({ limit, startDate }, { timeoutMs: PHOTO_TIMEOUT_MS });
+    return response.data.map(toPicTmpRow);
+  }
+
+  // 長期間用: GetTmp を PIC_TMP_PAGE_SIZE 件ずつ取得して新しい順に limit 件まで1件ずつ返す（Worker内には1ページ分だけ保持する）
+  async *streamPicTmp(limit: number, startDate?: string, signal?: AbortSignal): AsyncGenerator<PicTmpRow> {
+    let offset = 0;
+    while (offset < limit) {
+      const pageSize = Math.min(PIC_TMP_PAGE_SIZE, limit - offset);
+      const response = await this.picData.getTmp({ limit: pageSize, offset, startDate }, { signal, timeoutMs: PHOTO_TIMEOUT_MS });
+      for (const d of response.data) {
+        yield toPicTmpRow(d);
+      }
+      if (response.data.length < pageSize) break;
+      offset += pageSize;
+    }
+  }
+
+  // 期間 [startDate, endDate) の新しい順 limit 件と、続きを取得するときの offset（最後まで取得したら null）
+  // GetTmp は startDate 以降を新しい順に返すので、offset は startDate 以降の何件目かを表す
+  // 過去の日を表示する場合は、endDate 以降の行の件数を skipNewer で求めて読み飛ばす
+  // GetTmp の呼び出しが PIC_TMP_RANGE_MAX_REQUESTS 回を超えたら OUT_OF_RANGE
+  async getPicTmpRange(
+    startDate: string,
+    endDate: string,
+    limit: number = 30,
+    offset: number = 0,
+    signal?: AbortSignal
+  ): Promise<{ rows: PicTmpRow[]; nextOffset: number | null }> {
+    const end = new Date(endDate).getTime();
+    const isNewer = (d: PicTmpData) => new Date(d.date).getTime() >= end;
+    let requests = 0;
+    const fetchPage = async (pageSize: number, pageOffset: number): Promise<PicTmpData[]> => {
+      if (++requests > PIC_TMP_RANGE_MAX_REQUESTS) {
+        throw new GrpcError(Code.OutOfRange, `GetTmp was called more than ${PIC_TMP_RANGE_MAX_REQUESTS} times for one page; narrow start / end`);
+      }
+      const response = await this.picData.getTmp({ limit: pageSize, offset: pageOffset, startDate }, { signal, timeoutMs: PHOTO_TIMEOUT_MS });
+      return response.data;
+    };
+
+    const rows: PicTmpRow[] = [];
+    let next = offset;
+    while (rows.length < limit) {
+      const pageSize = limit - rows.length;
+      const data = await fetchPage(pageSize, next);
+      if (rows.length === 0 && data.length === pageSize && isNewer(data[data.length - 1])) {
+        // ページ全体が endDate 以降なら、endDate より前の最初の行まで読み飛ばす
+        next = await skipNewer(async (i) => {
+          const [d] = await fetchPage(1, i);
+          return !!d && isNewer(d);
+        }, next + pageSize);
+        continue;
+      }
+      next += data.length;
+      rows.push(...data.filter((d) => !isNewer(d)).map(toPicTmpRow));
+      if (data.length < pageSize) {
+        return { rows, nextOffset: null };
+      }
+    }
+    return { rows, nextOffset: next };
+  }
+
+  // 測定日時・端末の写真（cam 1: 体温測定時、cam 2: ID読み取り時）の base64
+  async getTmpPicture(date: string, machineIp: string, cam: 1 | 2): Promise<string | undefined> {
+    const target = new Date(date).getTime();
+    const rows = await fetchOldest(async (limit, offset) =>
+      (await this.picData.getTmp({ limit, offset, startDate: date }, { timeoutMs: PHOTO_TIMEOUT_MS })).data);
+    const row = rows.find((d) => new Date(d.date).getTime() === target && d.machineIp === machineIp);
+    return cam === 1 ? row?.picData1 : row?.picData2;
+  }
+
+  // ICタッチ時のカメラ画像（新しい順）
+  async getPicIc(limit: number = 30, offset?: number, startDate?: string): Promise<PicIcRow[]> {
+    const response = await this.picData.getIC({ limit, offset, startDate }, { timeoutMs: PHOTO_TIMEOUT_MS });
+    return response.data.map(toPicIcRow);
+  }
+
+  // driverId のICタッチ時のカメラ画像を新しい順に limit 件と、続きを取得するときの offset（最後まで取得したら null）
+  // GetIC はドライバーで絞り込めないので、offset（startDate 以降の何件目か）から collectMatching で集める
+  async getPicIcByDriver(
+    driverId: number,
+    limit: number = 30,
+    offset: number = 0,
+    startDate?: string,
+    signal?: AbortSignal
+  ): Promise<{ rows: PicIcRow[]; nextOffset: number | null }> {
+    return collectMatching(
+      async (pageLimit, pageOffset) =>
+        (await this.picData.getIC({ limit: pageLimit, offset: pageOffset, startDate }, { signal, timeoutMs: PHOTO_TIMEOUT_MS })).data.map(toPicIcRow),
+      (row) => row.driver_id === driverId,
+      limit,
+      offset
     );
-    return response.data.map((d: {
-      date: string;
-      machineIp: string;
-      driverId?: number;
-      driverName?: string;
-      picData1?: string;
-      picData2?: string;
-    }) => ({
-      date: d.date,
-      machine_ip: d.machineIp,
-      id: d.driverId,
-      name: d.driverName,
-      detail: 'tmp inserted',
-      pic_data_1: d.picData1,
-      pic_data_2: d.picData2,
-    }));
+  }
+
+  // ICタッチ時の写真の base64
+  async getIcPicture(date: string, machineIp: string): Promise<string | undefined> {
+    const target = new Date(date).getTime();
+    const rows = await fetchOldest(async (limit, offset) =>
+      (await this.picData.getIC({ limit, offset, startDate: date }, { timeoutMs: PHOTO_TIMEOUT_MS })).data);
+    return rows.find((d) => new Date(d.date).getTime() === target && d.machineIp === machineIp)?.picBase64;
   }
 
   // IC Non Reg Service
@@ -249,14 +407,8 @@ export class GrpcWebClient {
     datetime: string;
     registered_id: number | undefined;
   }>> {
-    const response = await this.callGrpcWeb(
-      'timecard.ICNonRegService',
-      'GetAll',
-      TimeRangeRequestSchema,
-      ICNonRegListSchema,
-      {}
-    );
-    return response.items.map((item: { id: string; datetime: string; registeredId?: number }) => ({
+    const response = await this.icNonReg.getAll({});
+    return response.items.map((item) => ({
       id: item.id,
       datetime: item.datetime,
       registered_id: item.registeredId,
@@ -264,24 +416,12 @@ export class GrpcWebClient {
   }
 
   async registerIc(icId: string, driverId: number): Promise<{ success: boolean; ic_id: string; driver_id: number }> {
-    await this.callGrpcWeb(
-      'timecard.ICNonRegService',
-      'Update',
-      UpdateICNonRegRequestSchema,
-      EmptySchema,
-      { icId, driverId }
-    );
+    await this.icNonReg.update({ icId, driverId });
     return { success: true, ic_id: icId, driver_id: driverId };
   }
 
   async cancelIcReservation(icId: string): Promise<{ success: boolean; ic_id: string }> {
-    await this.callGrpcWeb(
-      'timecard.ICNonRegService',
-      'CancelReservation',
-      CancelICNonRegRequestSchema,
-      EmptySchema,
-      { icId }
-    );
+    await this.icNonReg.cancelReservation({ icId });
     return { success: true, ic_id: icId };
   }
 
@@ -292,13 +432,7 @@ export class GrpcWebClient {
     driver_id: number | undefined;
     driver_name: string | undefined;
   }> {
-    const response = await this.callGrpcWeb(
-      'timecard.ICNonRegService',
-      'RegisterDirect',
-      RegisterDirectRequestSchema,
-      RegisterDirectResponseSchema,
-      { icId, driverId }
-    );
+    const response = await this.icNonReg.registerDirect({ icId, driverId });
     return {
       success: response.success,
       message: response.message,
@@ -310,13 +444,7 @@ export class GrpcWebClient {
 
   // IC削除（Socket.IO経由でPythonクライアントに通知）
   async deleteIc(icId: string): Promise<{ success: boolean; message: string }> {
-    const response = await this.callGrpcWeb(
-      'timecard.ICNonRegService',
-      'DeleteIc',
-      DeleteIcRequestSchema,
-      DeleteIcResponseSchema,
-      { icId }
-    );
+    const response = await this.icNonReg.deleteIc({ icId });
     return {
       success: response.success,
       message: response.message,
@@ -324,25 +452,40 @@ export class GrpcWebClient {
   }
 
   // IC Log Service
-  async getIcLog(): Promise<Array<{
-    id: string;
-    ic_id: string;
-    driver_id: number | null;
-    datetime: string;
-  }>> {
-    const response = await this.callGrpcWeb(
-      'timecard.ICLogService',
-      'GetRecent',
-      TimeRangeRequestSchema,
-      ICLogListSchema,
-      {}
-    );
-    return response.logs.map((log: { id: string; date: string; iid?: string }) => ({
-      id: log.id,
-      ic_id: log.id,
-      driver_id: log.iid ? parseInt(log.iid) : null,
-      datetime: log.date,
-    }));
+  // 期間内のICログ（ドライバー名付き、期間の省略時はバックエンドのデフォルト＝直近2日間）
+  async getIcLog(startDate?: string, endDate?: string): Promise<IcLogDetailRow[]> {
+    const response = await this.icLog.getWithDriver({ startDate, endDate });
+    return response.logs.map(toIcLogDetailRow);
+  }
+
+  // 体温測定を伴わないICタッチ（新しい順）
+  async getIcLogWithoutTmp(limit?: number, offset?: number, startDate?: string): Promise<IcLogDetailRow[]> {
+    const response = await this.icLog.getWithoutTmp({ limit, offset, startDate });
+    return response.logs.map(toIcLogDetailRow);
+  }
+
+  // 長期間用: 期間を IC_LOG_WINDOW_MS ごとに区切って GetWithDriver で取得し、古い順に1件ずつ返す
+  // （Worker内には1区間分だけ保持する）
+  async *streamIcLog(startDate?: string, endDate?: string, signal?: AbortSignal): AsyncGenerator<IcLogDetailRow> {
+    const end = endDate ? new Date(endDate).getTime() : Date.now();
+    let from = startDate ? new Date(startDate).getTime() : end - DEFAULT_RANGE_MS;
+    while (from <= end) {
+      const to = Math.min(from + IC_LOG_WINDOW_MS, end);
+      const response = await this.icLog.getWithDriver(
+        { startDate: new Date(from).toISOString(), endDate: new Date(to).toISOString() },
+        { signal }
+      );
+      // 期間は両端を含むので、区間の終わりちょうどの行は次の区間で返す
+      const logs = response.logs
+        .map((log) => ({ log, time: new Date(log.date).getTime() }))
+        .filter(({ time }) => time >= from && (to === end || time < to))
+        .sort((a, b) => a.time - b.time);
+      for (const { log } of logs) {
+        yield toIcLogDetailRow(log);
+      }
+      if (to === end) break;
+      from = to;
+    }
   }
 
   // 最新のICログをドライバー名付きで取得
@@ -354,21 +497,8 @@ export class GrpcWebClient {
     driver_name: string | undefined;
     machine_ip: string;
   }>> {
-    const response = await this.callGrpcWeb(
-      'timecard.ICLogService',
-      'GetLatestWithDriver',
-      PaginationRequestSchema,
-      ICLogWithDriverListSchema,
-      { limit }
-    );
-    return response.logs.map((log: {
-      id: string;
-      type: string;
-      date: string;
-      iid?: string;
-      driverName?: string;
-      machineIp: string;
-    }) => ({
+    const response = await this.icLog.getLatestWithDriver({ limit });
+    return response.logs.map((log) => ({
       card_id: log.id,
       type: log.type,
       date: log.date,
@@ -378,6 +508,29 @@ export class GrpcWebClient {
     }));
   }
 
+  // TmpData Service - 体温センサーデータ
+  async getTmpData(limit?: number, offset?: number, startDate?: string): Promise<TmpDataRow[]> {
+    const response = await this.tmpData.getAll({ limit, offset, startDate });
+    return response.data.map(toTmpDataRow);
+  }
+
+  // 写真が撮れなかった測定
+  async getTmpDataWithoutPic(limit?: number, offset?: number, startDate?: string): Promise<TmpDataRow[]> {
+    const response = await this.tmpData.getWithoutPic({ limit, offset, startDate });
+    return response.data.map(toTmpDataRow);
+  }
+
+  // FingerLog Service - 指紋認証ログ（期間省略時は直近2日間）
+  async getFingerLog(startDate?: string, endDate?: string): Promise<FingerLogRow[]> {
+    const response = await this.fingerLog.getRecent({ startDate, endDate });
+    return response.logs.map((log) => ({
+      date: log.date,
+      machine_ip: log.machineIp,
+      id: log.id,
+      message: log.message,
+    }));
+  }
+
   // Client Service - 接続中のSocket.IOクライアント一覧
   async getClients(): Promise<Array<{
     socket_id: string;
@@ -385,19 +538,8 @@ export class GrpcWebClient {
     connected_at: string;
     last_activity: string;
   }>> {
-    const response = await this.callGrpcWeb(
-      'timecard.ClientService',
-      'GetAll',
-      EmptySchema,
-      ClientListSchema,
-      {}
-    );
-    return response.clients.map((client: {
-      socketId: string;
-      ipAddress: string;
-      connectedAt: string;
-      lastActivity: string;
-    }) => ({
+    const response = await this.clients.getAll({});
+    return response.clients.map((client) => ({
       socket_id: client.socketId,
       ip_address: client.ipAddress,
       connected_at: client.connectedAt,
@@ -412,13 +554,7 @@ export class GrpcWebClient {
     build_date: string;
     rust_version: string;
   }> {
-    const response = await this.callGrpcWeb(
-      'timecard.VersionService',
-      'GetVersion',
-      EmptySchema,
-      VersionInfoSchema,
-      {}
-    );
+    const response = await this.version.getVersion({});
     return {
       git_commit: response.gitCommit,
       git_commit_full: response.gitCommitFull,
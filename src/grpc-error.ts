@@ -0,0 +1,79 @@
+// gRPC error with status code and trailer metadata
+
+import { Code } from '@connectrpc/connect';
+
+export { Code };
+
+// Canonical gRPC status names (https://grpc.github.io/grpc/core/md_doc_statuscodes.html)
+const CODE_NAMES: Record<Code, string> = {
+  [Code.Canceled]: 'CANCELLED',
+  [Code.Unknown]: 'UNKNOWN',
+  [Code.InvalidArgument]: 'INVALID_ARGUMENT',
+  [Code.DeadlineExceeded]: 'DEADLINE_EXCEEDED',
+  [Code.NotFound]: 'NOT_FOUND',
+  [Code.AlreadyExists]: 'ALREADY_EXISTS',
+  [Code.PermissionDenied]: 'PERMISSION_DENIED',
+  [Code.ResourceExhausted]: 'RESOURCE_EXHAUSTED',
+  [Code.FailedPrecondition]: 'FAILED_PRECONDITION',
+  [Code.Aborted]: 'ABORTED',
+  [Code.OutOfRange]: 'OUT_OF_RANGE',
+  [Code.Unimplemented]: 'UNIMPLEMENTED',
+  [Code.Internal]: 'INTERNAL',
+  [Code.Unavailable]: 'UNAVAILABLE',
+  [Code.DataLoss]: 'DATA_LOSS',
+  [Code.Unauthenticated]: 'UNAUTHENTICATED',
+};
+
+export class GrpcError extends Error {
+  readonly code: Code;
+  // grpc-message as sent by the backend (percent-decoded)
+  readonly grpcMessage: string;
+  // Response trailers (or headers for trailers-only responses)
+  readonly metadata: Headers;
+
+  constructor(code: Code, grpcMessage: string, metadata: HeadersInit = {}) {
+    super(`gRPC error ${CODE_NAMES[code] ?? code}: ${grpcMessage}`);
+    this.name = 'GrpcError';
+    this.code = code;
+    this.grpcMessage = grpcMessage;
+    this.metadata = new Headers(metadata);
+  }
+
+  get codeName(): string {
+    return CODE_NAMES[this.code] ?? 'UNKNOWN';
+  }
+
+  // Build from grpc-status / grpc-message trailers
+  static fromTrailer(trailer: Headers): GrpcError {
+    const status = parseInt(trailer.get('grpc-status') ?? '', 10);
+    const code = status in CODE_NAMES ? (status as Code) : Code.Unknown;
+    return new GrpcError(code, decodeGrpcMessage(trailer.get('grpc-message') ?? ''), trailer);
+  }
+
+  // HTTP status of a failed grpc-web response, mapped per
+  // https://github.com/grpc/grpc/blob/master/doc/http-grpc-status-mapping.md
+  static fromHttpStatus(status: number, statusText: string): GrpcError {
+    let code: Code;
+    switch (status) {
+      case 400: code = Code.Internal; break;
+      case 401: code = Code.Unauthenticated; break;
+      case 403: code = Code.PermissionDenied; break;
+      case 404: code = Code.Unimplemented; break;
+      case 429:
+      case 502:
+      case 503:
+      case 504: code = Code.Unavailable; break;
+      default: code = Code.Unknown;
+    }
+    return new GrpcError(code, `HTTP ${status} ${statusText}`.trim());
+  }
+}
+
+// grpc-message is percent-encoded; tolerate servers that send it raw
+export function decodeGrpcMessage(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,196 @@
+// gRPC-Web framing
+// Frame: 1 byte flag + 4 bytes big-endian length + data
+// https://github.com/grpc/grpc/blob/master/doc/PROTOCOL-WEB.md
+
+export const FRAME_FLAG_MESSAGE = 0x00;
+export const FRAME_FLAG_COMPRESSED = 0x01;
+export const FRAME_FLAG_TRAILER = 0x80;
+
+const FRAME_HEADER_LENGTH = 5;
+
+export type GrpcWebFormat = 'text' | 'binary';
+
+export interface GrpcWebFrame {
+  flag: number;
+  data: Uint8Array;
+}
+
+export function encodeFrame(flag: number, data: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(FRAME_HEADER_LENGTH + data.length);
+  frame[0] = flag;
+  const len = data.length;
+  frame[1] = (len >> 24) & 0xff;
+  frame[2] = (len >> 16) & 0xff;
+  frame[3] = (len >> 8) & 0xff;
+  frame[4] = len & 0xff;
+  frame.set(data, FRAME_HEADER_LENGTH);
+  return frame;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  // String.fromCharCode(...bytes) overflows the stack for large payloads
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function concatBytes(chunks: Uint8Array[], length: number): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+// grpc-web-text decoder
+// Each frame is base64 encoded separately and concatenated, so padding can
+// appear in the middle of the body. Base64 is decoded in 4-character quads and
+// a quad containing '=' always ends a segment, which makes the split exact
+// regardless of where chunk boundaries fall.
+export class GrpcWebTextDecoder {
+  private pending = '';
+
+  decode(text: string): Uint8Array {
+    const input = this.pending + text.replace(/\s/g, '');
+    const usable = input.length - (input.length % 4);
+    this.pending = input.substring(usable);
+
+    const segments: Uint8Array[] = [];
+    let total = 0;
+    let start = 0;
+    while (start < usable) {
+      const pad = input.indexOf('=', start);
+      const end = pad === -1 || pad >= usable ? usable : pad - (pad % 4) + 4;
+      const segment = decodeBase64(input.substring(start, end));
+      segments.push(segment);
+      total += segment.length;
+      start = end;
+    }
+
+    return concatBytes(segments, total);
+  }
+
+  flush(): void {
+    if (this.pending.length > 0) {
+      throw new Error('Invalid grpc-web-text response: truncated base64');
+    }
+  }
+}
+
+// Incremental frame parser; bytes may be pushed in arbitrary chunks
+export class GrpcWebFrameParser {
+  private chunks: Uint8Array[] = [];
+  private buffered = 0;
+
+  push(bytes: Uint8Array): GrpcWebFrame[] {
+    if (bytes.length > 0) {
+      this.chunks.push(bytes);
+      this.buffered += bytes.length;
+    }
+
+    const frames: GrpcWebFrame[] = [];
+    while (this.buffered >= FRAME_HEADER_LENGTH) {
+      const header = this.peek(FRAME_HEADER_LENGTH);
+      const length = ((header[1] << 24) | (header[2] << 16) | (header[3] << 8) | header[4]) >>> 0;
+      if (this.buffered < FRAME_HEADER_LENGTH + length) break;
+
+      this.take(FRAME_HEADER_LENGTH);
+      frames.push({ flag: header[0], data: this.take(length) });
+    }
+    return frames;
+  }
+
+  flush(): void {
+    if (this.buffered > 0) {
+      throw new Error(`Invalid gRPC-Web response: ${this.buffered} trailing bytes`);
+    }
+  }
+
+  private peek(length: number): Uint8Array {
+    const first = this.chunks[0];
+    if (first.length >= length) return first.subarray(0, length);
+    return concatBytes(this.chunks, this.buffered).subarray(0, length);
+  }
+
+  private take(length: number): Uint8Array {
+    const parts: Uint8Array[] = [];
+    let remaining = length;
+    while (remaining > 0) {
+      const chunk = this.chunks[0];
+      if (chunk.length <= remaining) {
+        parts.push(chunk);
+        this.chunks.shift();
+        remaining -= chunk.length;
+      } else {
+        parts.push(chunk.subarray(0, remaining));
+        this.chunks[0] = chunk.subarray(remaining);
+        remaining = 0;
+      }
+    }
+    this.buffered -= length;
+    return concatBytes(parts, length);
+  }
+}
+
+// Read frames from a response body as they arrive
+export async function* readFrames(
+  body: ReadableStream<Uint8Array>,
+  format: GrpcWebFormat
+): AsyncGenerator<GrpcWebFrame> {
+  const parser = new GrpcWebFrameParser();
+  const textDecoder = format === 'text' ? new TextDecoder() : null;
+  const base64Decoder = format === 'text' ? new GrpcWebTextDecoder() : null;
+  const reader = body.getReader();
+  let finished = false;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      const bytes = textDecoder && base64Decoder
+        ? base64Decoder.decode(textDecoder.decode(value, { stream: true }))
+        : value;
+      yield* parser.push(bytes);
+    }
+    if (textDecoder && base64Decoder) {
+      yield* parser.push(base64Decoder.decode(textDecoder.decode()));
+      base64Decoder.flush();
+    }
+    parser.flush();
+  } finally {
+    // Consumer stopped early (or parsing failed): stop downloading the body
+    if (!finished) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
+
+// Trailer frame: HTTP/1 style "key: value\r\n" lines
+export function parseTrailer(data: Uint8Array): Headers {
+  const trailer = new Headers();
+  for (const line of new TextDecoder().decode(data).split('\r\n')) {
+    const sep = line.indexOf(':');
+    if (sep > 0) {
+      trailer.append(line.substring(0, sep).trim(), line.substring(sep + 1).trim());
+    }
+  }
+  return trailer;
+}
@@ -0,0 +1,279 @@
+// gRPC-Web transport for @connectrpc/connect
+// Speaks grpc-web to the Rust backend so clients generated from
+// src/gen/timecard_pb.ts are type-checked end to end
+
+import { create, toBinary, fromBinary } from '@bufbuild/protobuf';
+import { MethodOptions_IdempotencyLevel } from '@bufbuild/protobuf/wkt';
+import type { DescMessage, DescMethod, DescMethodStreaming, DescMethodUnary, MessageInitShape } from '@bufbuild/protobuf';
+import type { StreamResponse, Transport, UnaryResponse } from '@connectrpc/connect';
+import {
+  FRAME_FLAG_MESSAGE,
+  FRAME_FLAG_TRAILER,
+  encodeBase64,
+  encodeFrame,
+  parseTrailer,
+  readFrames,
+  type GrpcWebFormat,
+  type GrpcWebFrame,
+} from './grpc-web-frames';
+import { Code, GrpcError } from './grpc-error';
+
+export interface GrpcWebTransportOptions {
+  baseUrl: string;
+  // 'text' (grpc-web-text, base64) is the default for better Cloudflare compatibility.
+  // 'binary' (grpc-web+proto) avoids inflating large payloads such as photos.
+  format?: GrpcWebFormat;
+  // Default deadline per RPC, overridden by CallOptions.timeoutMs
+  timeoutMs?: number;
+  // Retries for methods declared with idempotency_level NO_SIDE_EFFECTS or IDEMPOTENT.
+  // Mutations (Update, DeleteIc, ...) are never retried.
+  retry?: RetryOptions;
+  // Metadata sent with every RPC (e.g. the signed x-timecard-user token)
+  metadata?: HeadersInit;
+}
+
+export interface RetryOptions {
+  // Total attempts including the first one (1 = no retry)
+  maxAttempts: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+// Only failures where the request most likely never reached the backend
+const RETRYABLE_CODES = new Set<Code>([Code.Unavailable]);
+
+const CONTENT_TYPES: Record<GrpcWebFormat, string> = {
+  text: 'application/grpc-web-text',
+  binary: 'application/grpc-web+proto',
+};
+
+export function createGrpcWebTransport(options: GrpcWebTransportOptions): Transport {
+  // Remove trailing slash
+  const baseUrl = options.baseUrl.replace(/\/$/, '');
+  const format = options.format ?? 'text';
+  const contentType = CONTENT_TYPES[format];
+  const retry = options.retry ?? { maxAttempts: 1, initialBackoffMs: 0, maxBackoffMs: 0 };
+
+  async function post(
+    method: DescMethod,
+    deadline: Deadline,
+    header: HeadersInit | undefined,
+    requestBytes: Uint8Array
+  ): Promise<Response> {
+    const requestFrame = encodeFrame(FRAME_FLAG_MESSAGE, requestBytes);
+
+    const requestHeader = new Headers(options.metadata);
+    new Headers(header).forEach((value, key) => requestHeader.set(key, value));
+    requestHeader.set('Content-Type', contentType);
+    requestHeader.set('Accept', contentType);
+    requestHeader.set('x-grpc-web', '1');
+    const remainingMs = deadline.remainingMs();
+    if (remainingMs !== undefined) {
+      requestHeader.set('grpc-timeout', `${Math.max(1, Math.ceil(remainingMs))}m`);
+    }
+
+    const url = `${baseUrl}/${method.parent.typeName}/${method.name}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: requestHeader,
+        body: format === 'text' ? encodeBase64(requestFrame) : requestFrame,
+        signal: deadline.signal,
+      });
+    } catch (e) {
+      throw deadline.toGrpcError(e, Code.Unavailable);
+    }
+
+    if (!response.ok) {
+      throw GrpcError.fromHttpStatus(response.status, response.statusText);
+    }
+    return response;
+  }
+
+  // Yields message payloads as frames arrive, then validates the trailer.
+  // The trailer is copied into `trailer` so callers can read it once the stream ends.
+  async function* readMessages(response: Response, deadline: Deadline, trailer: Headers): AsyncGenerator<Uint8Array> {
+    let trailerFrame: Headers | null = null;
+
+    if (response.body) {
+      const frames = readFrames(response.body, format);
+      try {
+        for (;;) {
+          let next: IteratorResult<GrpcWebFrame>;
+          try {
+            next = await frames.next();
+          } catch (e) {
+            throw deadline.toGrpcError(e, Code.Internal);
+          }
+          if (next.done) break;
+
+          const frame = next.value;
+          if (frame.flag === FRAME_FLAG_TRAILER) {
+            trailerFrame = parseTrailer(frame.data);
+          } else if (frame.flag === FRAME_FLAG_MESSAGE) {
+            if (trailerFrame) {
+              throw new GrpcError(Code.Internal, 'Invalid gRPC-Web response: message after trailer');
+            }
+            yield frame.data;
+          } else {
+            throw new GrpcError(Code.Internal, `Invalid gRPC-Web response: unsupported frame flag 0x${frame.flag.toString(16)}`);
+          }
+        }
+      } finally {
+        // Cancels the body if we stop before the end
+        await frames.return(undefined);
+      }
+    }
+
+    // Trailers-only responses carry the status in the HTTP headers
+    const received = trailerFrame ?? response.headers;
+    received.forEach((value, key) => trailer.append(key, value));
+
+    const status = received.get('grpc-status');
+    if (status === null) {
+      throw new GrpcError(Code.Internal, 'Invalid gRPC-Web response: missing grpc-status', received);
+    }
+    if (status !== '0') {
+      throw GrpcError.fromTrailer(received);
+    }
+  }
+
+  return {
+    async unary<I extends DescMessage, O extends DescMessage>(
+      method: DescMethodUnary<I, O>,
+      signal: AbortSignal | undefined,
+      timeoutMs: number | undefined,
+      header: HeadersInit | undefined,
+      input: MessageInitShape<I>
+    ): Promise<UnaryResponse<I, O>> {
+      const requestBytes = toBinary(method.input, create(method.input, input));
+      const deadline = new Deadline(signal, timeoutMs ?? options.timeoutMs);
+      const maxAttempts = isRetryable(method) ? Math.max(1, retry.maxAttempts) : 1;
+
+      try {
+        for (let attempt = 1; ; attempt++) {
+          try {
+            const response = await post(method, deadline, header, requestBytes);
+
+            const trailer = new Headers();
+            let messageBytes: Uint8Array | null = null;
+            for await (const bytes of readMessages(response, deadline, trailer)) {
+              if (messageBytes) {
+                throw new GrpcError(Code.Internal, 'Invalid gRPC-Web response: unary RPC returned multiple messages');
+              }
+              messageBytes = bytes;
+            }
+
+            return {
+              stream: false,
+              service: method.parent,
+              method,
+              header: response.headers,
+              message: messageBytes && messageBytes.length > 0
+                ? fromBinary(method.output, messageBytes)
+                : create(method.output),
+              trailer,
+            };
+          } catch (e) {
+            const error = deadline.toGrpcError(e, Code.Unknown);
+            if (attempt >= maxAttempts || !RETRYABLE_CODES.has(error.code)) {
+              throw error;
+            }
+
+            // Full jitter: random delay up to the exponential cap
+            const cap = Math.min(retry.maxBackoffMs, retry.initialBackoffMs * 2 ** (attempt - 1));
+            const delay = Math.floor(Math.random() * cap);
+            const remainingMs = deadline.remainingMs();
+            if (remainingMs !== undefined && remainingMs <= delay) {
+              throw error;
+            }
+            console.warn(`gRPC ${method.parent.typeName}/${method.name} failed (${error.codeName}), retry ${attempt}/${maxAttempts - 1} in ${delay}ms`);
+            await deadline.sleep(delay);
+          }
+        }
+      } finally {
+        deadline.clear();
+      }
+    },
+
+    // The backend only implements unary RPCs
+    async stream<I extends DescMessage, O extends DescMessage>(
+      method: DescMethodStreaming<I, O>
+    ): Promise<StreamResponse<I, O>> {
+      throw new GrpcError(Code.Unimplemented, `streaming RPC ${method.parent.typeName}/${method.name} is not supported`);
+    },
+  };
+}
+
+function isRetryable(method: DescMethod): boolean {
+  return method.idempotency === MethodOptions_IdempotencyLevel.NO_SIDE_EFFECTS
+    || method.idempotency === MethodOptions_IdempotencyLevel.IDEMPOTENT;
+}
+
+// Deadline for one RPC (all attempts included), linked to the caller's AbortSignal
+class Deadline {
+  readonly signal: AbortSignal;
+  private controller = new AbortController();
+  private expiresAt: number | undefined;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private timedOut = false;
+  private parent: AbortSignal | undefined;
+  private onParentAbort = () => this.controller.abort();
+
+  constructor(parent: AbortSignal | undefined, timeoutMs: number | undefined) {
+    this.signal = this.controller.signal;
+    this.parent = parent;
+    if (parent?.aborted) {
+      this.controller.abort();
+    } else {
+      parent?.addEventListener('abort', this.onParentAbort);
+    }
+    if (timeoutMs !== undefined && timeoutMs > 0) {
+      this.expiresAt = Date.now() + timeoutMs;
+      this.timer = setTimeout(() => {
+        this.timedOut = true;
+        this.controller.abort();
+      }, timeoutMs);
+    }
+  }
+
+  remainingMs(): number | undefined {
+    return this.expiresAt === undefined ? undefined : Math.max(0, this.expiresAt - Date.now());
+  }
+
+  sleep(ms: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.signal.aborted) {
+        reject(this.toGrpcError(null, Code.Canceled));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.toGrpcError(null, Code.Canceled));
+      };
+      const timer = setTimeout(() => {
+        this.signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      this.signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  clear(): void {
+    if (this.timer !== undefined) clearTimeout(this.timer);
+    this.parent?.removeEventListener('abort', this.onParentAbort);
+  }
+
+  // Network failures, aborts and framing errors surface as GrpcError as well
+  toGrpcError(e: unknown, fallback: Code): GrpcError {
+    if (e instanceof GrpcError) return e;
+    if (this.signal.aborted) {
+      return this.timedOut
+        ? new GrpcError(Code.DeadlineExceeded, 'deadline exceeded')
+        : new GrpcError(Code.Canceled, 'request aborted');
+    }
+    return new GrpcError(fallback, e instanceof Error ? e.message : String(e));
+  }
+}
@@ -2,11 +2,14 @@
 // Main entry point for the timecard frontend application
 
 import { WebSocketHibernationDO } from './durable-objects/websocket-hibernation';
+import { SessionStoreDO } from './durable-objects/session-store';
 import { handleApiRequest } from './api/routes';
+import { errorResponse } from './api/errors';
 import { ICON_192_BASE64, ICON_512_BASE64 } from './icons';
 import {
   authMiddleware,
   isPublicPath,
+  isSameOriginRequest,
   createLoginRedirect,
   handleGoogleLogin,
   handleGoogleCallback,
@@ -16,10 +19,21 @@ import {
   createTempToken,
   verifyTempToken,
   createSessionCookie,
+  isKioskSessionEnabled,
+  verifySessionCookie,
+  revokeSession,
+  revokeUserSessions,
+  getSessionMaxExpiry,
+  getPagePermission,
+  hasPermission,
+  verifyBroadcastSignature,
+  authenticateApiKey,
+  API_KEY_NAME_MAX_LENGTH,
   type Env as AuthEnv,
+  type SessionPayload,
 } from './auth';
 
-export { WebSocketHibernationDO };
+export { WebSocketHibernationDO, SessionStoreDO };
 
 export interface Env extends AuthEnv {
   __STATIC_CONTENT: KVNamespace;
@@ -52,7 +66,7 @@ export default {
     if (path === '/login') {
       const url = new URL(request.url);
       const redirect = url.searchParams.get('redirect') || '/';
-      return new Response(getLoginPage(redirect), {
+      return new Response(getLoginPage(redirect, isKioskSessionEnabled(env)), {
         headers: { 'Content-Type': 'text/html; charset=utf-8' },
       });
     }
@@ -97,8 +111,28 @@ export default {
       return handleTokenAuth(request, env);
     }
 
-    // ログアウト
+    // ログアウト（サーバー側のセッションも失効させる。?all=1 で全端末からログアウト）
+    // 全端末からのログアウトは別サイトから踏ませられないよう、同じオリジンからの POST に限る
     if (path === '/logout') {
+      const all = url.searchParams.get('all') === '1';
+      if (all && request.method !== 'POST') {
+        return errorResponse(405, 'METHOD_NOT_ALLOWED', 'POST で送信してください');
+      }
+      if (all && !isSameOriginRequest(request)) {
+        return errorResponse(403, 'PERMISSION_DENIED', '別のサイトからのリクエストは受け付けません');
+      }
+      const sessionUser = await verifySessionCookie(request, env);
+      if (sessionUser?.jti) {
+        try {
+          if (all) {
+            await revokeUserSessions(env, sessionUser.sub);
+          } else {
+            await revokeSession(env, sessionUser.jti, getSessionMaxExpiry(sessionUser, env));
+          }
+        } catch (e) {
+          console.error('Failed to revoke session:', e);
+        }
+      }
       return new Response(null, {
         status: 302,
         headers: {
@@ -109,11 +143,19 @@ export default {
     }
 
     // === 認証チェック（公開パス以外） ===
+    let user: SessionPayload | undefined;
+    let sessionCookie: string | undefined; // 延長したセッションCookie
     if (!isPublicPath(path)) {
       const auth = await authMiddleware(request, env);
       if (!auth.authenticated) {
+        // APIキーのクライアントにはログイン画面ではなく401を返す
+        if (path.startsWith('/api/') && request.headers.has('Authorization')) {
+          return errorResponse(401, 'UNAUTHENTICATED', 'APIキーが正しくないか、削除されています');
+        }
         return createLoginRedirect(request);
       }
+      user = auth.user;
+      sessionCookie = auth.setCookie;
     }
 
     // WebSocket upgrade for /ws endpoint
@@ -124,10 +166,24 @@ export default {
     }
 
     // Broadcast endpoint (internal use)
+    // バックエンドの署名（broadcast-signature.ts）か broadcast スコープのAPIキーを確認してから全端末に送る
     if (path === '/api/broadcast') {
+      if (request.method !== 'POST') {
+        return errorResponse(405, 'METHOD_NOT_ALLOWED', 'POST で送信してください');
+      }
+      const body = await request.text();
+      const apiKeyUser = request.headers.has('Authorization') ? await authenticateApiKey(request, env) : null;
+      if (apiKeyUser && !apiKeyUser.scopes?.includes('broadcast')) {
+        return errorResponse(403, 'PERMISSION_DENIED', 'このAPIキーには broadcast の権限がありません');
+      }
+      const rejected = apiKeyUser ? null : await verifyBroadcastSignature(request, body, env);
+      if (rejected) {
+        console.warn(`Rejected broadcast from ${clientIP}: ${rejected}`);
+        return errorResponse(401, 'UNAUTHENTICATED', rejected);
+      }
       const id = env.WEBSOCKET_HIBERNATION.idFromName('main');
       const stub = env.WEBSOCKET_HIBERNATION.get(id);
-      return stub.fetch(new Request(new URL('/broadcast', request.url), request));
+      return stub.fetch(new URL('/broadcast', request.url), { method: 'POST', body });
     }
 
     // 認証チェックAPI（JSから呼び出し用）
@@ -140,12 +196,15 @@ export default {
 
     // API routes
     if (path.startsWith('/api/')) {
-      const response = await handleApiRequest(request, env);
+      const response = await handleApiRequest(request, env, user);
       // Add CORS headers to API responses
       const newHeaders = new Headers(response.headers);
       Object.entries(corsHeaders).forEach(([key, value]) => {
         newHeaders.set(key, value);
       });
+      if (sessionCookie) {
+        newHeaders.append('Set-Cookie', sessionCookie);
+      }
       return new Response(response.body, {
         status: response.status,
         statusText: response.statusText,
@@ -154,11 +213,15 @@ export default {
     }
 
     // Serve static files for frontend pages
-    return serveStaticContent(request, env, path);
+    const response = await serveStaticContent(request, env, path, user);
+    if (sessionCookie) {
+      response.headers.append('Set-Cookie', sessionCookie);
+    }
+    return response;
   },
 };
 
-async function serveStaticContent(request: Request, env: Env, path: string): Promise<Response> {
+async function serveStaticContent(request: Request, env: Env, path: string, user?: SessionPayload): Promise<Response> {
   // Map routes to HTML files
   let filePath = path;
 
@@ -174,15 +237,36 @@ async function serveStaticContent(request: Request, env: Env, path: string): Pro
     filePath = '/ic-log-list.html';
   } else if (path === '/clients' || path === '/clients.html') {
     filePath = '/clients.html';
+  } else if (path === '/finger_log' || path === '/finger-log.html') {
+    filePath = '/finger-log.html';
+  } else if (path === '/photos' || path === '/photos.html') {
+    filePath = '/photos.html';
+  } else if (path === '/pic_ic' || path === '/pic-ic.html') {
+    filePath = '/pic-ic.html';
+  } else if (path === '/attendance' || path === '/attendance.html') {
+    filePath = '/attendance.html';
+  } else if (path === '/sessions' || path === '/sessions.html') {
+    filePath = '/sessions.html';
+  } else if (path === '/api_keys' || path === '/api-keys.html') {
+    filePath = '/api-keys.html';
+  }
+
+  // ロールで許可されていないページは表示しない
+  const permission = getPagePermission(filePath);
+  if (permission && !hasPermission(user, permission)) {
+    return withRoleNavigation(new Response(getForbiddenPage(), {
+      status: 403,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    }), user);
   }
 
   // For development, return inline HTML
   // In production, use __STATIC_CONTENT KV
   const html = getPageContent(filePath);
   if (html) {
-    return new Response(html, {
+    return withRoleNavigation(new Response(html, {
       headers: { 'Content-Type': 'text/html; charset=utf-8' },
-    });
+    }), user);
   }
 
   // Try serving as static asset
@@ -238,6 +322,20 @@ async function serveStaticContent(request: Request, env: Env, path: string): Pro
   return new Response('Not Found', { status: 404 });
 }
 
+// ナビゲーションから表示できないページへのリンクを外す
+function withRoleNavigation(response: Response, user?: SessionPayload): Response {
+  return new HTMLRewriter()
+    .on('nav.nav-links a[href]', {
+      element(link) {
+        const permission = getPagePermission(link.getAttribute('href') || '');
+        if (permission && !hasPermission(user, permission)) {
+          link.remove();
+        }
+      },
+    })
+    .transform(response);
+}
+
 function getPageContent(path: string): string | null {
   const pages: Record<string, string> = {
     '/drivers.html': getDriversPage(),
@@ -245,6 +343,12 @@ function getPageContent(path: string): string | null {
     '/delete-ic.html': getDeleteIcPage(),
     '/ic-log-list.html': getIcLogListPage(),
     '/clients.html': getClientsPage(),
+    '/finger-log.html': getFingerLogPage(),
+    '/photos.html': getPhotosPage(),
+    '/pic-ic.html': getPicIcPage(),
+    '/attendance.html': getAttendancePage(),
+    '/sessions.html': getSessionsPage(),
+    '/api-keys.html': getApiKeysPage(),
   };
   return pages[path] || null;
 }
@@ -285,17 +389,33 @@ function getBaseTemplate(title: string, content: string, scripts: string = ''):
     .ws-connected { background: #28a745; color: white; }
     .ws-disconnected { background: #dc3545; color: white; }
     img.thumbnail { max-width: 200px; max-height: 150px; }
+    img.thumbnail[data-full] { cursor: zoom-in; }
+    .lightbox { display: none; position: fixed; inset: 0; z-index: 1050; background: rgba(0, 0, 0, 0.85); align-items: center; justify-content: center; cursor: zoom-out; }
+    .lightbox.show { display: flex; }
+    .lightbox img { max-width: 95vw; max-height: 95vh; }
+    @media print {
+      .nav-links, .no-print, .ws-status, #degraded-banner { display: none !important; }
+      body { padding: 0; }
+      .attendance-driver { break-inside: avoid; }
+    }
   </style>
 </head>
 <body>
   <div class="container">
+    <div id="degraded-banner" class="alert alert-warning d-none" role="alert"></div>
     <nav class="nav-links d-flex justify-content-between align-items-center">
       <div>
         <a href="/" class="btn btn-outline-primary">打刻一覧</a>
+        <a href="/photos" class="btn btn-outline-primary">写真</a>
+        <a href="/pic_ic" class="btn btn-outline-primary">IC写真</a>
+        <a href="/attendance" class="btn btn-outline-primary">勤怠</a>
         <a href="/drivers" class="btn btn-outline-primary">ドライバー</a>
         <a href="/ic_non_reg" class="btn btn-outline-primary">未登録IC</a>
         <a href="/delete_ic" class="btn btn-outline-primary">IC削除</a>
+        <a href="/finger_log" class="btn btn-outline-primary">指紋ログ</a>
         <a href="/clients" class="btn btn-outline-info">接続端末</a>
+        <a href="/sessions" class="btn btn-outline-info">セッション</a>
+        <a href="/api_keys" class="btn btn-outline-info">APIキー</a>
       </div>
       <div class="d-flex align-items-center gap-2">
         <div id="api-version" class="text-muted small" style="font-size: 0.75em;"></div>
@@ -337,6 +457,9 @@ function getBaseTemplate(title: string, content: string, scripts: string = ''):
             if (data.type === 'hello') {
               this.emit('hello', data.data);
             }
+            if (data.type === 'temperature_alert') {
+              this.emit('temperature_alert', data.data);
+            }
           } catch (e) {
             console.error('Failed to parse message:', e);
           }
@@ -397,6 +520,39 @@ function getBaseTemplate(title: string, content: string, scripts: string = ''):
 
     window.tcWs = new TimecardWebSocket();
 
+    // APIエラーレスポンス（{ error: { code, message, detail } }）から表示用メッセージを取得
+    async function getApiErrorMessage(response) {
+      try {
+        const body = await response.json();
+        if (body && body.error) {
+          if (typeof body.error === 'string') return body.error;
+          if (body.error.code === 'UNAVAILABLE' || body.error.code === 'DEADLINE_EXCEEDED') showDegradedBanner();
+          return body.error.message + (body.error.detail ? '（' + body.error.detail + '）' : '');
+        }
+      } catch (e) {}
+      return 'エラーが発生しました (HTTP ' + response.status + ')';
+    }
+
+    // バックエンド障害中の表示（cachedAt があれば保存済みデータを表示中）
+    function showDegradedBanner(cachedAt) {
+      const banner = document.getElementById('degraded-banner');
+      banner.textContent = cachedAt
+        ? 'サーバーに接続できません。' + new Date(cachedAt).toLocaleString('ja-JP') + ' 時点のデータを表示しています'
+        : 'サーバーに接続できません。しばらくしてからお試しください';
+      banner.classList.remove('d-none');
+    }
+
+    // APIレスポンスのデータを取得（stale: true の場合は保存済みデータ）
+    async function readApiData(response) {
+      const body = await response.json();
+      if (body && !Array.isArray(body) && body.stale === true) {
+        showDegradedBanner(body.cached_at);
+        return body.data;
+      }
+      document.getElementById('degraded-banner').classList.add('d-none');
+      return body;
+    }
+
     // Register Service Worker
     if ('serviceWorker' in navigator) {
       window.addEventListener('load', () => {
@@ -434,12 +590,24 @@ function getBaseTemplate(title: string, content: string, scripts: string = ''):
 </html>`;
 }
 
-function getIndexPage(): string {
+function getPhotosPage(): string {
   const content = `
-    <h1>タイムカード</h1>
-    <div class="mb-3">
-      <label for="datepick" class="form-label">日付選択:</label>
-      <input type="date" id="datepick" class="form-control" style="max-width: 200px;">
+    <h1>写真付き体温記録</h1>
+    <div id="fever-alert" class="alert alert-danger d-none" role="alert"></div>
+    <div class="row g-2 align-items-end mb-3">
+      <div class="col-auto">
+        <button id="prevDayBtn" class="btn btn-outline-secondary">&laquo; 前日</button>
+      </div>
+      <div class="col-auto">
+        <label for="datepick" class="form-label">日付選択:</label>
+        <input type="date" id="datepick" class="form-control" style="max-width: 200px;">
+      </div>
+      <div class="col-auto">
+        <button id="nextDayBtn" class="btn btn-outline-secondary">翌日 &raquo;</button>
+      </div>
+      <div class="col-auto">
+        <button id="todayBtn" class="btn btn-outline-primary">今日</button>
+      </div>
     </div>
     <table id="sample" class="table table-bordered">
       <thead>
@@ -452,158 +620,271 @@ function getIndexPage(): string {
       </thead>
       <tbody></tbody>
     </table>
-    <button id="next_btn" class="btn btn-primary">次へ</button>
+    <div id="noData" class="text-muted text-center py-4" style="display: none;">
+      この日の記録はありません
+    </div>
+    <button id="moreBtn" class="btn btn-primary" style="display: none;">さらに読み込む</button>
     <div id="loading" class="loading">
       <div class="spinner"></div>
     </div>
+    <div id="lightbox" class="lightbox" title="クリックで閉じる">
+      <img id="lightboxImg" alt="">
+    </div>
   `;
 
   const scripts = `
     <script>
+      const PAGE_SIZE = 30;
+      // 一覧はサムネイル（/api/pic/...?size=）、原寸はライトボックスで開いたときだけ取得する
+      const THUMBNAIL_SIZE = 200;
       const tableElem = document.getElementById('sample');
       const loadingElem = document.getElementById('loading');
-      let lastDate = null;
+      const noDataElem = document.getElementById('noData');
+      const moreBtn = document.getElementById('moreBtn');
+      const datepick = document.getElementById('datepick');
+      // 表示中の日の範囲と、次ページの offset（/api/pic_tmp の X-Next-Offset、続きがなければ null）
+      let rangeStart = null;
+      let rangeEnd = null;
+      let nextOffset = null;
+      // 行より先に届いた写真（行ID → { tmp, ic }）
+      const pendingPictures = new Map();
+
+      function toDateValue(date) {
+        return date.getFullYear() + '-' +
+               String(date.getMonth() + 1).padStart(2, '0') + '-' +
+               String(date.getDate()).padStart(2, '0');
+      }
 
-      async function loadData(startDate) {
+      function isToday() {
+        return datepick.value === toDateValue(new Date());
+      }
+
+      // 日時 + 端末IPで行を特定する（API はミリ秒、WebSocket はマイクロ秒の日時なので秒までに揃える）
+      function rowId(time, ip) {
+        return new Date(time).toISOString().slice(0, 19) + (ip || '');
+      }
+
+      function formatDate(value) {
+        const date = new Date(value);
+        return String(date.getFullYear()).slice(2) + '/' +
+               String(date.getMonth() + 1).padStart(2, '0') + '/' +
+               String(date.getDate()).padStart(2, '0') + ' ' +
+               String(date.getHours()).padStart(2, '0') + ':' +
+               String(date.getMinutes()).padStart(2, '0') + ':' +
+               String(date.getSeconds()).padStart(2, '0');
+      }
+
+      // base64 の先頭で画像形式を判定（端末は JPEG、モックは PNG）
+      function pictureSrc(base64) {
+        const type = base64.startsWith('/9j/') ? 'image/jpeg' : 'image/png';
+        return 'data:' + type + ';base64,' + base64;
+      }
+
+      // src は /api/pic/... の URL（ブラウザにキャッシュされる）または data URL
+      function setPicture(cell, src) {
+        if (!cell || !src) return;
+        cell.innerHTML = '';
+        const img = document.createElement('img');
+        img.src = src.startsWith('data:') ? src : src + '?size=' + THUMBNAIL_SIZE;
+        img.loading = 'lazy';
+        img.className = 'thumbnail';
+        img.dataset.full = src;
+        cell.appendChild(img);
+      }
+
+      const lightbox = document.getElementById('lightbox');
+      const lightboxImg = document.getElementById('lightboxImg');
+
+      tableElem.addEventListener('click', (e) => {
+        if (e.target.tagName === 'IMG' && e.target.dataset.full) {
+          lightboxImg.src = e.target.dataset.full;
+          lightbox.classList.add('show');
+        }
+      });
+      lightbox.addEventListener('click', () => {
+        lightbox.classList.remove('show');
+        lightboxImg.removeAttribute('src');
+      });
+      document.addEventListener('keydown', (e) => {
+        if (e.key === 'Escape') lightbox.click();
+      });
+
+      function addMethodLabel(baseId, status) {
+        const dateCell = document.getElementById(baseId + '_date');
+        if (dateCell && !dateCell.querySelector('.method-label')) {
+          const label = document.createElement('span');
+          label.className = 'method-label';
+          label.textContent = status === 'tmp inserted by fing' ? '指紋' : 'IC';
+          dateCell.appendChild(document.createElement('br'));
+          dateCell.appendChild(label);
+        }
+      }
+
+      function insertRow(baseId, date, index) {
+        const trElem = tableElem.tBodies[0].insertRow(index);
+        trElem.id = baseId;
+        trElem.className = 'tr_data';
+
+        const dateCell = trElem.insertCell(0);
+        dateCell.id = baseId + '_date';
+        dateCell.textContent = formatDate(date);
+
+        trElem.insertCell().id = baseId + '_pic_tmp';
+        trElem.insertCell().id = baseId + '_pic_ic';
+        trElem.insertCell().id = baseId + '_id';
+        noDataElem.style.display = 'none';
+
+        const pending = pendingPictures.get(baseId);
+        if (pending) {
+          setPicture(document.getElementById(baseId + '_pic_tmp'), pending.tmp);
+          setPicture(document.getElementById(baseId + '_pic_ic'), pending.ic);
+          if (pending.status) addMethodLabel(baseId, pending.status);
+          pendingPictures.delete(baseId);
+        }
+        return trElem;
+      }
+
+      function setName(baseId, id, name) {
+        const nameCell = document.getElementById(baseId + '_id');
+        if (!nameCell) return;
+        nameCell.textContent = '';
+        nameCell.append(id ? String(id) : '', document.createElement('br'), name || '');
+      }
+
+      function renderData(photoList) {
+        photoList.forEach((ele) => {
+          const baseId = rowId(ele.date, ele.machine_ip);
+          // 表示中に新しい記録が増えると offset がずれて表示済みの行も返るので、重複は飛ばす
+          if (document.getElementById(baseId)) return;
+          insertRow(baseId, ele.date, -1);
+          setPicture(document.getElementById(baseId + '_pic_tmp'), ele.pic_url_1);
+          setPicture(document.getElementById(baseId + '_pic_ic'), ele.pic_url_2);
+          setName(baseId, ele.id, ele.name);
+
+          if (ele.fever) {
+            markFever(baseId, ele.max_tmp);
+          }
+        });
+      }
+
+      // 表示中の日の [rangeStart, rangeEnd) を新しい順に offset から PAGE_SIZE 件
+      async function loadPage(offset) {
         loadingElem.classList.add('show');
         try {
-          let url = '/api/pic_tmp?limit=30';
-          if (startDate) {
-            url += '&start=' + encodeURIComponent(startDate);
-          }
-          const response = await fetch(url);
+          const params = new URLSearchParams({
+            start: rangeStart.toISOString(),
+            end: rangeEnd.toISOString(),
+            limit: String(PAGE_SIZE),
+            offset: String(offset),
+          });
+          const response = await fetch('/api/pic_tmp?' + params);
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
           const data = await response.json();
           renderData(data);
+
+          const next = response.headers.get('X-Next-Offset');
+          nextOffset = next === null ? null : parseInt(next);
+          moreBtn.style.display = nextOffset !== null ? '' : 'none';
+          noDataElem.style.display = tableElem.tBodies[0].rows.length === 0 ? 'block' : 'none';
         } catch (e) {
           console.error('Failed to load data:', e);
+          alert('データの取得に失敗しました: ' + e.message);
         } finally {
           loadingElem.classList.remove('show');
         }
       }
 
-      function renderData(photoList) {
-        photoList.forEach((ele) => {
-          const trElem = tableElem.tBodies[0].insertRow(-1);
-          const baseId = new Date(ele.date).toISOString().slice(0, -5) + (ele.machine_ip || '');
-          trElem.id = baseId;
-          trElem.className = 'tr_data';
-          trElem.setAttribute('data-date', new Date(ele.date).toISOString().slice(0, -5));
-          lastDate = new Date(ele.date).toISOString().slice(0, -5);
-
-          // Date cell
-          const dateCell = trElem.insertCell(0);
-          dateCell.id = baseId + '_date';
-          const dateStr = new Date(ele.date).toISOString().replace(/-/g, '/').replace(/T/g, ' ').slice(2, -5);
-          dateCell.textContent = dateStr;
-          if (ele.detail === 'tmp inserted by fing') {
-            dateCell.innerHTML += '<br>指紋';
-          } else if (ele.detail === 'tmp inserted by ic') {
-            dateCell.innerHTML += '<br>IC';
-          }
-
-          // Temp photo cell
-          const tempCell = trElem.insertCell();
-          tempCell.id = baseId + '_pic_tmp';
-          if (ele.pic_data_1) {
-            const img = document.createElement('img');
-            img.src = 'data:image/png;base64,' + ele.pic_data_1;
-            img.className = 'thumbnail';
-            tempCell.appendChild(img);
-          }
+      function showDay(value) {
+        datepick.value = value;
+        rangeStart = new Date(value + 'T00:00:00');
+        rangeEnd = new Date(rangeStart);
+        rangeEnd.setDate(rangeEnd.getDate() + 1);
+        nextOffset = null;
+        pendingPictures.clear();
+        tableElem.tBodies[0].innerHTML = '';
+        document.getElementById('nextDayBtn').disabled = isToday();
+        loadPage(0);
+      }
 
-          // ID photo cell
-          const idCell = trElem.insertCell();
-          idCell.id = baseId + '_pic_ic';
-          if (ele.pic_data_2) {
-            const img = document.createElement('img');
-            img.src = 'data:image/png;base64,' + ele.pic_data_2;
-            img.className = 'thumbnail';
-            idCell.appendChild(img);
-          }
+      function shiftDay(days) {
+        const date = new Date(datepick.value + 'T00:00:00');
+        date.setDate(date.getDate() + days);
+        showDay(toDateValue(date));
+      }
 
-          // Name cell
-          const nameCell = trElem.insertCell();
-          nameCell.id = baseId + '_id';
-          nameCell.innerHTML = (ele.id || '') + '<br>' + (ele.name || '');
-        });
+      // 発熱しきい値以上の行を強調表示
+      function markFever(baseId, temperature) {
+        const trElem = document.getElementById(baseId);
+        if (!trElem) return;
+        trElem.classList.add('table-danger');
+        const dateCell = document.getElementById(baseId + '_date');
+        if (dateCell && !dateCell.querySelector('.fever-badge')) {
+          const badge = document.createElement('span');
+          badge.className = 'badge bg-danger fever-badge';
+          badge.textContent = '体温 ' + temperature.toFixed(1) + '℃';
+          dateCell.appendChild(document.createElement('br'));
+          dateCell.appendChild(badge);
+        }
       }
 
-      // Handle real-time updates via WebSocket
+      window.tcWs.on('temperature_alert', (alert) => {
+        const feverAlert = document.getElementById('fever-alert');
+        feverAlert.textContent = '発熱の可能性: ' + (alert.name || alert.id || alert.ip) +
+          ' ' + alert.temperature.toFixed(1) + '℃（' + new Date(alert.time).toLocaleTimeString('ja-JP') + '）';
+        feverAlert.classList.remove('d-none');
+        markFever(rowId(alert.time, alert.ip), alert.temperature);
+      });
+
+      // Handle real-time updates via WebSocket（今日を表示中のみ）
+      // pic_data_aft: 測定後に撮影した写真（base64）。体温写真と ID 写真は別のイベントで届く
       window.tcWs.on('hello', (data) => {
-        if (document.getElementById('datepick').value) return;
+        if (!isToday() || !data.data || !data.data.time) return;
+
+        const baseId = rowId(data.data.time, data.ip);
+        const base64 = data.data.pic_data_aft || data.data.pic_data_base64;
+        const picture = base64 ? pictureSrc(base64) : null;
 
         if (data.status === 'tmp inserted') {
-          const trElem = tableElem.tBodies[0].insertRow(0);
-          const baseId = data.data.time.slice(0, -7) + (data.ip || '');
-          trElem.id = baseId;
-          trElem.className = 'tr_data';
-
-          const dateCell = trElem.insertCell(0);
-          dateCell.id = baseId + '_date';
-          dateCell.textContent = data.data.time.replace(/-/g, '/').replace(/T/g, ' ').slice(2, -7);
-
-          const tempCell = trElem.insertCell();
-          tempCell.id = baseId + '_pic_tmp';
-          if (data.data.pic_data_aft) {
-            const img = document.createElement('img');
-            img.src = 'data:image/png;base64,' + data.data.pic_data_aft;
-            img.className = 'thumbnail';
-            tempCell.appendChild(img);
+          if (!document.getElementById(baseId)) {
+            insertRow(baseId, data.data.time, 0);
           }
-
-          const idCell = trElem.insertCell();
-          idCell.id = baseId + '_pic_ic';
-
-          const nameCell = trElem.insertCell();
-          nameCell.id = baseId + '_id';
+          setPicture(document.getElementById(baseId + '_pic_tmp'), picture);
         }
 
         if (data.status === 'tmp inserted by fing' || data.status === 'tmp inserted by ic') {
-          const baseId = data.data.time.slice(0, -7) + (data.ip || '');
-          const idCell = document.getElementById(baseId + '_pic_ic');
-          if (idCell && data.data.pic_data_aft) {
-            const img = document.createElement('img');
-            img.src = 'data:image/png;base64,' + data.data.pic_data_aft;
-            img.className = 'thumbnail';
-            idCell.appendChild(img);
-          }
-
-          const dateCell = document.getElementById(baseId + '_date');
-          if (dateCell) {
-            dateCell.innerHTML += '<br>' + (data.status === 'tmp inserted by fing' ? '指紋' : 'IC');
+          if (document.getElementById(baseId)) {
+            setPicture(document.getElementById(baseId + '_pic_ic'), picture);
+            addMethodLabel(baseId, data.status);
+          } else {
+            const pending = pendingPictures.get(baseId) || {};
+            pendingPictures.set(baseId, Object.assign(pending, { ic: picture, status: data.status }));
           }
         }
 
         if (data.status === 'tmp inserted wo pic' && data.data.id) {
-          const baseId = data.data.time.slice(0, -7) + (data.ip || '');
-          const nameCell = document.getElementById(baseId + '_id');
-          if (nameCell) {
-            nameCell.innerHTML = data.data.id + '<br>' + (data.data.name || '');
-          }
+          setName(baseId, data.data.id, data.data.name);
         }
       });
 
-      // Next button
-      document.getElementById('next_btn').addEventListener('click', () => {
-        if (lastDate) {
-          loadData(lastDate);
+      moreBtn.addEventListener('click', () => {
+        if (nextOffset !== null) {
+          loadPage(nextOffset);
         }
       });
 
-      // Date picker
-      document.getElementById('datepick').addEventListener('change', (e) => {
-        const date = new Date(e.target.value);
-        date.setDate(date.getDate() + 1);
-        document.querySelectorAll('tr.tr_data').forEach(tr => tr.remove());
-        loadData(date.toISOString().slice(0, -5));
+      datepick.addEventListener('change', () => {
+        if (datepick.value) showDay(datepick.value);
       });
+      document.getElementById('prevDayBtn').addEventListener('click', () => shiftDay(-1));
+      document.getElementById('nextDayBtn').addEventListener('click', () => shiftDay(1));
+      document.getElementById('todayBtn').addEventListener('click', () => showDay(toDateValue(new Date())));
 
       // Initial load
-      loadData();
+      showDay(toDateValue(new Date()));
     </script>
   `;
 
-  return getBaseTemplate('タイムカード', content, scripts);
+  return getBaseTemplate('写真付き体温記録', content, scripts);
 }
 
 function getDriversPage(): string {
@@ -637,7 +918,8 @@ function getDriversPage(): string {
         tableElem.tBodies[0].innerHTML = '';
         try {
           const response = await fetch('/api/drivers');
-          const drivers = await response.json();
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          const drivers = await readApiData(response);
           drivers.forEach((driver) => {
             const tr = tableElem.tBodies[0].insertRow(-1);
             tr.insertCell(0).textContent = driver.id;
@@ -645,6 +927,7 @@ function getDriversPage(): string {
           });
         } catch (e) {
           console.error('Failed to load drivers:', e);
+          alert('ドライバーの取得に失敗しました: ' + e.message);
         } finally {
           loadingElem.classList.remove('show');
         }
@@ -656,7 +939,7 @@ function getDriversPage(): string {
         reloadBtn.disabled = true;
         try {
           const response = await fetch('/api/drivers/reload', { method: 'POST' });
-          if (!response.ok) throw new Error('更新に失敗しました');
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
           const drivers = await response.json();
           tableElem.tBodies[0].innerHTML = '';
           drivers.forEach((driver) => {
@@ -776,6 +1059,7 @@ function getIcNonRegPage(): string {
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ ic_id: serial, driver_id: parseInt(driverId) })
                   });
+                  if (!res.ok) throw new Error(await getApiErrorMessage(res));
                   const result = await res.json();
                   if (result.success) {
                     nfcResult.innerHTML = '<div class="alert alert-success py-2">' +
@@ -813,7 +1097,8 @@ function getIcNonRegPage(): string {
         tableElem.tBodies[0].innerHTML = '';
         try {
           const response = await fetch('/api/ic_non_reg');
-          const items = await response.json();
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          const items = await readApiData(response);
           items.filter(item => item.id && item.id.trim() !== '').forEach((item) => {
             const tr = tableElem.tBodies[0].insertRow(-1);
 
@@ -862,6 +1147,7 @@ function getIcNonRegPage(): string {
           });
         } catch (e) {
           console.error('Failed to load non-registered IC:', e);
+          alert('データの取得に失敗しました: ' + e.message);
         } finally {
           loadingElem.classList.remove('show');
         }
@@ -878,7 +1164,7 @@ function getIcNonRegPage(): string {
             alert('登録しました');
             location.reload();
           } else {
-            alert('登録に失敗しました');
+            alert('登録に失敗しました: ' + await getApiErrorMessage(response));
           }
         } catch (e) {
           console.error('Failed to register IC:', e);
@@ -898,7 +1184,7 @@ function getIcNonRegPage(): string {
             alert('取消しました');
             location.reload();
           } else {
-            alert('取消に失敗しました');
+            alert('取消に失敗しました: ' + await getApiErrorMessage(response));
           }
         } catch (e) {
           console.error('Failed to cancel reservation:', e);
@@ -977,6 +1263,7 @@ function getDeleteIcPage(): string {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ ic_id: serial })
               });
+              if (!response.ok) throw new Error(await getApiErrorMessage(response));
               const result = await response.json();
               if (result.success) {
                 resultDiv.innerHTML = '<div class="alert alert-success">' + result.message + '</div>';
@@ -984,7 +1271,7 @@ function getDeleteIcPage(): string {
                 resultDiv.innerHTML = '<div class="alert alert-danger">エラー: ' + result.message + '</div>';
               }
             } catch (error) {
-              resultDiv.innerHTML = '<div class="alert alert-danger">APIエラー: ' + error + '</div>';
+              resultDiv.innerHTML = '<div class="alert alert-danger">APIエラー: ' + error.message + '</div>';
             }
           });
         } catch (error) {
@@ -1000,6 +1287,40 @@ function getDeleteIcPage(): string {
 function getIcLogListPage(): string {
   const content = `
     <h1>打刻一覧</h1>
+    <details class="card mb-3">
+      <summary class="card-header">ダウンロード（CSV / Excel）</summary>
+      <div class="card-body row g-2 align-items-end">
+        <div class="col-auto">
+          <label for="exportStart" class="form-label">開始日:</label>
+          <input type="date" id="exportStart" class="form-control">
+        </div>
+        <div class="col-auto">
+          <label for="exportEnd" class="form-label">終了日:</label>
+          <input type="date" id="exportEnd" class="form-control">
+        </div>
+        <div class="col-auto">
+          <label for="exportDriver" class="form-label">ドライバー:</label>
+          <select id="exportDriver" class="form-select">
+            <option value="">すべて</option>
+          </select>
+        </div>
+        <div class="col-auto">
+          <label for="exportMachine" class="form-label">端末IP:</label>
+          <input type="text" id="exportMachine" class="form-control" placeholder="すべて">
+        </div>
+        <div class="col-auto">
+          <label for="exportFormat" class="form-label">形式:</label>
+          <select id="exportFormat" class="form-select">
+            <option value="xlsx">Excel (.xlsx)</option>
+            <option value="csv-sjis">CSV (Shift_JIS)</option>
+            <option value="csv-utf8">CSV (UTF-8 BOM)</option>
+          </select>
+        </div>
+        <div class="col-auto">
+          <button id="exportBtn" class="btn btn-success">ダウンロード</button>
+        </div>
+      </div>
+    </details>
     <div class="mb-3">
       <label for="limitSelect" class="form-label">表示件数:</label>
       <select id="limitSelect" class="form-select" style="max-width: 150px;">
@@ -1039,7 +1360,8 @@ function getIcLogListPage(): string {
         try {
           const limit = limitSelect.value;
           const response = await fetch('/api/ic_log_list?limit=' + limit);
-          const logs = await response.json();
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          const logs = await readApiData(response);
 
           logs.forEach((log) => {
             const tr = tableElem.tBodies[0].insertRow(-1);
@@ -1080,7 +1402,7 @@ function getIcLogListPage(): string {
           });
         } catch (e) {
           console.error('Failed to load IC log list:', e);
-          alert('データの取得に失敗しました');
+          alert('データの取得に失敗しました: ' + e.message);
         } finally {
           loadingElem.classList.remove('show');
         }
@@ -1089,6 +1411,46 @@ function getIcLogListPage(): string {
       // Handle limit change
       limitSelect.addEventListener('change', loadIcLogList);
 
+      // 画面に表示しきれない期間はファイルでダウンロードする
+      async function loadExportDrivers() {
+        try {
+          const response = await fetch('/api/drivers');
+          if (!response.ok) return;
+          const drivers = await readApiData(response);
+          const select = document.getElementById('exportDriver');
+          drivers.forEach((driver) => {
+            const option = document.createElement('option');
+            option.value = String(driver.id);
+            option.textContent = driver.id + ' ' + driver.name;
+            select.appendChild(option);
+          });
+        } catch (e) {
+          console.error('Failed to load drivers:', e);
+        }
+      }
+
+      document.getElementById('exportBtn').addEventListener('click', () => {
+        const startValue = document.getElementById('exportStart').value;
+        const endValue = document.getElementById('exportEnd').value;
+        if (!startValue || !endValue) {
+          alert('開始日と終了日を指定してください');
+          return;
+        }
+        const [format, encoding] = document.getElementById('exportFormat').value.split('-');
+        const params = new URLSearchParams({
+          start: new Date(startValue + 'T00:00:00').toISOString(),
+          end: new Date(endValue + 'T23:59:59').toISOString(),
+        });
+        if (encoding) params.set('encoding', encoding);
+        const driverId = document.getElementById('exportDriver').value;
+        if (driverId) params.set('driver_id', driverId);
+        const machineIp = document.getElementById('exportMachine').value.trim();
+        if (machineIp) params.set('machine_ip', machineIp);
+        window.location.href = '/api/export/ic_log.' + format + '?' + params;
+      });
+
+      loadExportDrivers();
+
       // Real-time updates
       window.tcWs.on('hello', (data) => {
         if (data.status && data.status.includes('ic')) {
@@ -1105,6 +1467,458 @@ function getIcLogListPage(): string {
   return getBaseTemplate('打刻一覧', content, scripts);
 }
 
+function getFingerLogPage(): string {
+  const content = `
+    <h1>指紋ログ</h1>
+    <div class="row g-2 mb-3 align-items-end">
+      <div class="col-auto">
+        <label for="startInput" class="form-label">開始日:</label>
+        <input type="date" id="startInput" class="form-control">
+      </div>
+      <div class="col-auto">
+        <label for="endInput" class="form-label">終了日:</label>
+        <input type="date" id="endInput" class="form-control">
+      </div>
+      <div class="col-auto">
+        <button id="searchBtn" class="btn btn-primary">表示</button>
+      </div>
+      <div class="col-auto text-muted small">未指定の場合は直近2日間</div>
+    </div>
+    <div id="terminals"></div>
+    <div id="loading" class="loading">
+      <div class="spinner"></div>
+    </div>
+    <div id="noLogs" class="text-muted text-center py-4" style="display: none;">
+      指紋ログはありません
+    </div>
+  `;
+
+  const scripts = `
+    <script>
+      const terminalsElem = document.getElementById('terminals');
+      const loadingElem = document.getElementById('loading');
+      const noLogsElem = document.getElementById('noLogs');
+      const startInput = document.getElementById('startInput');
+      const endInput = document.getElementById('endInput');
+
+      function formatDate(value) {
+        const date = new Date(value);
+        return date.getFullYear() + '/' +
+               String(date.getMonth() + 1).padStart(2, '0') + '/' +
+               String(date.getDate()).padStart(2, '0') + ' ' +
+               String(date.getHours()).padStart(2, '0') + ':' +
+               String(date.getMinutes()).padStart(2, '0') + ':' +
+               String(date.getSeconds()).padStart(2, '0');
+      }
+
+      // 端末（machine_ip）ごとにテーブルを作る
+      function renderTerminal(machineIp, logs) {
+        const section = document.createElement('div');
+        section.className = 'mb-4';
+        const heading = document.createElement('h5');
+        heading.textContent = machineIp + '（' + logs.length + '件）';
+        section.appendChild(heading);
+
+        const table = document.createElement('table');
+        table.className = 'table table-bordered table-striped';
+        table.innerHTML = '<thead class="table-dark"><tr>' +
+          '<th class="text-center">日時</th><th class="text-center">ID</th>' +
+          '<th class="text-center">氏名</th><th class="text-center">メッセージ</th>' +
+          '</tr></thead><tbody></tbody>';
+
+        logs.forEach((log) => {
+          const tr = table.tBodies[0].insertRow(-1);
+          const dateCell = tr.insertCell(0);
+          dateCell.textContent = formatDate(log.date);
+          dateCell.className = 'text-center';
+
+          const idCell = tr.insertCell();
+          idCell.textContent = log.id ? String(log.id) : '';
+          idCell.className = 'text-center';
+
+          const nameCell = tr.insertCell();
+          nameCell.textContent = log.driver_name || (log.id ? '(未登録)' : '');
+          nameCell.className = 'text-center';
+          if (!log.driver_name) {
+            nameCell.style.color = '#999';
+          }
+
+          tr.insertCell().textContent = log.message;
+        });
+
+        section.appendChild(table);
+        terminalsElem.appendChild(section);
+      }
+
+      async function loadFingerLog() {
+        loadingElem.classList.add('show');
+        terminalsElem.innerHTML = '';
+        noLogsElem.style.display = 'none';
+
+        try {
+          const params = new URLSearchParams();
+          if (startInput.value) params.set('start', new Date(startInput.value + 'T00:00:00').toISOString());
+          if (endInput.value) params.set('end', new Date(endInput.value + 'T23:59:59').toISOString());
+          const response = await fetch('/api/finger_log?' + params);
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          const logs = await response.json();
+
+          if (logs.length === 0) {
+            noLogsElem.style.display = 'block';
+            return;
+          }
+
+          // 新しい順に端末ごとにまとめる
+          const byTerminal = new Map();
+          logs.sort((a, b) => b.date.localeCompare(a.date)).forEach((log) => {
+            if (!byTerminal.has(log.machine_ip)) byTerminal.set(log.machine_ip, []);
+            byTerminal.get(log.machine_ip).push(log);
+          });
+          Array.from(byTerminal.keys()).sort().forEach((machineIp) => {
+            renderTerminal(machineIp, byTerminal.get(machineIp));
+          });
+        } catch (e) {
+          console.error('Failed to load finger log:', e);
+          alert('指紋ログの取得に失敗しました: ' + e.message);
+        } finally {
+          loadingElem.classList.remove('show');
+        }
+      }
+
+      document.getElementById('searchBtn').addEventListener('click', loadFingerLog);
+
+      // Real-time updates
+      window.tcWs.on('hello', (data) => {
+        if (data.status === 'tmp inserted by fing') {
+          loadFingerLog();
+        }
+      });
+
+      // Initial load
+      loadFingerLog();
+    </script>
+  `;
+
+  return getBaseTemplate('指紋ログ', content, scripts);
+}
+
+function getPicIcPage(): string {
+  const content = `
+    <h1>IC打刻写真</h1>
+    <p class="text-muted">ICカードをタッチした人がカードの持ち主本人か、撮影された写真で確認できます。</p>
+    <div class="row g-2 align-items-end mb-3">
+      <div class="col-auto">
+        <label for="driverSelect" class="form-label">ドライバー:</label>
+        <select id="driverSelect" class="form-select" style="min-width: 200px;">
+          <option value="">すべて</option>
+        </select>
+      </div>
+    </div>
+    <table id="sample" class="table table-bordered">
+      <thead class="table-dark">
+        <tr>
+          <th class="text-center">日時</th>
+          <th class="text-center">写真</th>
+          <th class="text-center">ID/社員名</th>
+          <th class="text-center">カードID</th>
+          <th class="text-center">端末</th>
+        </tr>
+      </thead>
+      <tbody></tbody>
+    </table>
+    <div id="noData" class="text-muted text-center py-4" style="display: none;">
+      IC打刻の写真はありません
+    </div>
+    <button id="moreBtn" class="btn btn-primary" style="display: none;">さらに読み込む</button>
+    <div id="loading" class="loading">
+      <div class="spinner"></div>
+    </div>
+    <div id="lightbox" class="lightbox" title="クリックで閉じる">
+      <img id="lightboxImg" alt="">
+    </div>
+  `;
+
+  const scripts = `
+    <script>
+      const PAGE_SIZE = 30;
+      const THUMBNAIL_SIZE = 200;
+      const tableElem = document.getElementById('sample');
+      const loadingElem = document.getElementById('loading');
+      const noDataElem = document.getElementById('noData');
+      const moreBtn = document.getElementById('moreBtn');
+      const driverSelect = document.getElementById('driverSelect');
+      // 次ページの offset（/api/pic_ic の X-Next-Offset、続きがなければ null）と読み込んだページ数
+      let nextOffset = null;
+      let pages = 0;
+
+      function formatDate(value) {
+        const date = new Date(value);
+        return date.getFullYear() + '/' +
+               String(date.getMonth() + 1).padStart(2, '0') + '/' +
+               String(date.getDate()).padStart(2, '0') + ' ' +
+               String(date.getHours()).padStart(2, '0') + ':' +
+               String(date.getMinutes()).padStart(2, '0') + ':' +
+               String(date.getSeconds()).padStart(2, '0');
+      }
+
+      function renderRow(log) {
+        const tr = tableElem.tBodies[0].insertRow(-1);
+
+        const dateCell = tr.insertCell(0);
+        dateCell.textContent = formatDate(log.date);
+        dateCell.className = 'text-center';
+
+        const picCell = tr.insertCell();
+        picCell.className = 'text-center';
+        if (log.pic_url) {
+          const img = document.createElement('img');
+          img.src = log.pic_url + '?size=' + THUMBNAIL_SIZE;
+          img.loading = 'lazy';
+          img.className = 'thumbnail';
+          img.dataset.full = log.pic_url;
+          picCell.appendChild(img);
+        } else {
+          picCell.textContent = '写真なし';
+          picCell.classList.add('text-muted');
+        }
+
+        // カードの持ち主（未登録カードは要確認として強調）
+        const nameCell = tr.insertCell();
+        nameCell.className = 'text-center';
+        if (log.driver_id != null) {
+          nameCell.append(String(log.driver_id), document.createElement('br'), log.driver_name || '(未登録)');
+        } else {
+          nameCell.textContent = '未登録カード';
+          tr.classList.add('table-warning');
+        }
+
+        const cardCell = tr.insertCell();
+        cardCell.textContent = log.ic_id;
+        cardCell.className = 'text-center text-muted';
+        cardCell.style.fontSize = '0.85em';
+
+        const ipCell = tr.insertCell();
+        ipCell.textContent = log.machine_ip;
+        ipCell.className = 'text-center';
+      }
+
+      async function loadPage(reset) {
+        loadingElem.classList.add('show');
+        if (reset) {
+          nextOffset = 0;
+          pages = 0;
+          tableElem.tBodies[0].innerHTML = '';
+        }
+
+        try {
+          const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(nextOffset) });
+          if (driverSelect.value) params.set('driver_id', driverSelect.value);
+          const response = await fetch('/api/pic_ic?' + params);
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          const logs = await response.json();
+          logs.forEach(renderRow);
+
+          const next = response.headers.get('X-Next-Offset');
+          nextOffset = next === null ? null : parseInt(next);
+          pages++;
+          moreBtn.style.display = nextOffset !== null ? '' : 'none';
+          noDataElem.style.display = tableElem.tBodies[0].rows.length === 0 ? 'block' : 'none';
+        } catch (e) {
+          console.error('Failed to load IC pictures:', e);
+          alert('データの取得に失敗しました: ' + e.message);
+        } finally {
+          loadingElem.classList.remove('show');
+        }
+      }
+
+      async function loadDrivers() {
+        try {
+          const response = await fetch('/api/drivers');
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          const drivers = await readApiData(response);
+          drivers.forEach((driver) => {
+            const option = document.createElement('option');
+            option.value = String(driver.id);
+            option.textContent = driver.id + ' ' + driver.name;
+            driverSelect.appendChild(option);
+          });
+        } catch (e) {
+          console.error('Failed to load drivers:', e);
+        }
+      }
+
+      const lightbox = document.getElementById('lightbox');
+      const lightboxImg = document.getElementById('lightboxImg');
+
+      tableElem.addEventListener('click', (e) => {
+        if (e.target.tagName === 'IMG' && e.target.dataset.full) {
+          lightboxImg.src = e.target.dataset.full;
+          lightbox.classList.add('show');
+        }
+      });
+      lightbox.addEventListener('click', () => {
+        lightbox.classList.remove('show');
+        lightboxImg.removeAttribute('src');
+      });
+      document.addEventListener('keydown', (e) => {
+        if (e.key === 'Escape') lightbox.click();
+      });
+
+      moreBtn.addEventListener('click', () => {
+        if (nextOffset !== null) loadPage(false);
+      });
+      driverSelect.addEventListener('change', () => loadPage(true));
+
+      // Real-time updates（最初のページだけ表示中のとき）
+      window.tcWs.on('hello', (data) => {
+        if (data.status && data.status.includes('ic') && pages <= 1) {
+          loadPage(true);
+        }
+      });
+
+      // Initial load
+      loadDrivers();
+      loadPage(true);
+    </script>
+  `;
+
+  return getBaseTemplate('IC打刻写真', content, scripts);
+}
+
+function getAttendancePage(): string {
+  const content = `
+    <h1>月次勤怠</h1>
+    <div class="row g-2 align-items-end mb-3 no-print">
+      <div class="col-auto">
+        <label for="monthInput" class="form-label">対象月:</label>
+        <input type="month" id="monthInput" class="form-control">
+      </div>
+      <div class="col-auto">
+        <button id="showBtn" class="btn btn-primary">表示</button>
+      </div>
+      <div class="col-auto">
+        <button id="printBtn" class="btn btn-outline-secondary">印刷</button>
+      </div>
+    </div>
+    <div id="summary"></div>
+    <div id="drivers"></div>
+    <div id="loading" class="loading">
+      <div class="spinner"></div>
+    </div>
+    <div id="noData" class="text-muted text-center py-4" style="display: none;">
+      この月の打刻はありません
+    </div>
+  `;
+
+  const scripts = `
+    <script>
+      const monthInput = document.getElementById('monthInput');
+      const driversElem = document.getElementById('drivers');
+      const summaryElem = document.getElementById('summary');
+      const loadingElem = document.getElementById('loading');
+      const noDataElem = document.getElementById('noData');
+      const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+      function formatMinutes(minutes) {
+        if (minutes == null) return '';
+        return Math.floor(minutes / 60) + ':' + String(minutes % 60).padStart(2, '0');
+      }
+
+      function formatTime(value) {
+        const date = new Date(value);
+        return String(date.getHours()).padStart(2, '0') + ':' + String(date.getMinutes()).padStart(2, '0');
+      }
+
+      function formatDay(value) {
+        const date = new Date(value + 'T00:00:00');
+        return (date.getMonth() + 1) + '/' + date.getDate() + '（' + WEEKDAYS[date.getDay()] + '）';
+      }
+
+      function renderDriver(driver) {
+        const section = document.createElement('div');
+        section.className = 'attendance-driver mb-4';
+
+        const heading = document.createElement('h5');
+        heading.textContent = driver.driver_id + ' ' + (driver.driver_name || '(未登録)');
+        section.appendChild(heading);
+
+        const table = document.createElement('table');
+        table.className = 'table table-bordered table-sm';
+        table.innerHTML = '<thead class="table-light"><tr>' +
+          '<th class="text-center">日付</th><th class="text-center">出勤</th>' +
+          '<th class="text-center">退勤</th><th class="text-center">勤務時間</th>' +
+          '<th class="text-center">備考</th></tr></thead><tbody></tbody>' +
+          '<tfoot><tr class="fw-bold"><td class="text-center">合計</td><td colspan="2" class="text-center"></td>' +
+          '<td class="text-center"></td><td></td></tr></tfoot>';
+
+        driver.shifts.forEach((shift) => {
+          const tr = table.tBodies[0].insertRow(-1);
+          tr.insertCell().textContent = formatDay(shift.date);
+          tr.insertCell().textContent = shift.clock_in ? formatTime(shift.clock_in) : '--:--';
+          const outCell = tr.insertCell();
+          outCell.textContent = shift.clock_out ? (shift.overnight ? '翌' : '') + formatTime(shift.clock_out) : '--:--';
+          tr.insertCell().textContent = formatMinutes(shift.worked_minutes);
+          tr.insertCell().textContent = !shift.clock_in ? '出勤打刻なし' : shift.clock_out ? (shift.overnight ? '日またぎ' : '') : '退勤打刻なし';
+          if (!shift.clock_in || !shift.clock_out) tr.classList.add('table-warning');
+          Array.from(tr.cells).forEach((cell) => cell.classList.add('text-center'));
+        });
+
+        const footer = table.tFoot.rows[0];
+        footer.cells[1].textContent = driver.days_worked + '日';
+        footer.cells[2].textContent = formatMinutes(driver.total_minutes);
+        footer.cells[3].textContent = [
+          driver.missing_clock_in > 0 ? '出勤打刻なし ' + driver.missing_clock_in + '件' : '',
+          driver.missing_clock_out > 0 ? '退勤打刻なし ' + driver.missing_clock_out + '件' : '',
+        ].filter((note) => note).join(' / ');
+
+        section.appendChild(table);
+        driversElem.appendChild(section);
+      }
+
+      async function loadReport() {
+        loadingElem.classList.add('show');
+        driversElem.innerHTML = '';
+        summaryElem.textContent = '';
+        noDataElem.style.display = 'none';
+
+        try {
+          const response = await fetch('/api/reports/attendance?month=' + encodeURIComponent(monthInput.value));
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          const report = await response.json();
+
+          const [year, month] = report.month.split('-');
+          summaryElem.innerHTML = '';
+          const title = document.createElement('h4');
+          title.textContent = year + '年' + parseInt(month) + '月 勤怠集計（' + report.drivers.length + '名）';
+          summaryElem.appendChild(title);
+
+          if (report.drivers.length === 0) {
+            noDataElem.style.display = 'block';
+            return;
+          }
+          report.drivers.forEach(renderDriver);
+        } catch (e) {
+          console.error('Failed to load attendance report:', e);
+          alert('勤怠レポートの取得に失敗しました: ' + e.message);
+        } finally {
+          loadingElem.classList.remove('show');
+        }
+      }
+
+      const now = new Date();
+      monthInput.value = now.getFullYear() + '-' + String(now.getMonth() + 1).padStart(2, '0');
+
+      document.getElementById('showBtn').addEventListener('click', loadReport);
+      document.getElementById('printBtn').addEventListener('click', () => window.print());
+
+      // Initial load
+      loadReport();
+    </script>
+  `;
+
+  return getBaseTemplate('月次勤怠', content, scripts);
+}
+
 function getClientsPage(): string {
   const content = `
     <h1>接続端末一覧</h1>
@@ -1144,6 +1958,7 @@ function getClientsPage(): string {
         tableBody.innerHTML = '';
         try {
           const response = await fetch('/api/clients');
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
           const data = await response.json();
           renderClients(data.clients);
           updateCount(data.total);
@@ -1237,6 +2052,374 @@ function getClientsPage(): string {
   return getBaseTemplate('接続端末', content, scripts);
 }
 
+function getApiKeysPage(): string {
+  const content = `
+    <h1>APIキー</h1>
+    <p class="text-muted">Pythonの端末クライアントやスクリプトから <code>Authorization: Bearer</code> で /api/* を呼び出すためのキーです。</p>
+    <div id="newKey" class="alert alert-success d-none" role="alert">
+      <div class="fw-bold mb-1">新しいキー（この画面を閉じると二度と表示されません）</div>
+      <div class="input-group">
+        <input type="text" id="newKeyValue" class="form-control font-monospace" readonly>
+        <button id="copyKeyBtn" class="btn btn-outline-success">コピー</button>
+      </div>
+    </div>
+    <form id="createForm" class="card card-body mb-3">
+      <div class="mb-2">
+        <label for="keyName" class="form-label">名前</label>
+        <input type="text" id="keyName" class="form-control" placeholder="例: 事務所の体温計端末" maxlength="${API_KEY_NAME_MAX_LENGTH}" required>
+      </div>
+      <div class="mb-2">
+        <div class="form-label">スコープ</div>
+        <div id="scopeChecks"></div>
+      </div>
+      <div>
+        <button type="submit" class="btn btn-primary">作成</button>
+      </div>
+    </form>
+    <table id="keysTable" class="table table-bordered table-striped">
+      <thead class="table-dark">
+        <tr>
+          <th class="text-center">名前</th>
+          <th class="text-center">キー</th>
+          <th class="text-center">スコープ</th>
+          <th class="text-center">作成</th>
+          <th class="text-center">最終利用</th>
+          <th class="text-center">操作</th>
+        </tr>
+      </thead>
+      <tbody></tbody>
+    </table>
+    <div id="loading" class="loading">
+      <div class="spinner"></div>
+    </div>
+  `;
+
+  const scripts = `
+    <script>
+      const tableBody = document.querySelector('#keysTable tbody');
+      const loadingElem = document.getElementById('loading');
+      const scopeChecks = document.getElementById('scopeChecks');
+      let scopeLabels = {};
+
+      async function loadKeys() {
+        loadingElem.classList.add('show');
+        tableBody.innerHTML = '';
+        try {
+          const response = await fetch('/api/api_keys');
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          const data = await response.json();
+          if (Object.keys(scopeLabels).length === 0) {
+            scopeLabels = data.scopes;
+            renderScopeChecks();
+          }
+          renderKeys(data.api_keys);
+        } catch (e) {
+          console.error('Failed to load API keys:', e);
+          tableBody.innerHTML = '<tr><td colspan="6" class="text-center text-danger">データの取得に失敗しました</td></tr>';
+        } finally {
+          loadingElem.classList.remove('show');
+        }
+      }
+
+      function renderScopeChecks() {
+        Object.keys(scopeLabels).forEach((scope) => {
+          const div = document.createElement('div');
+          div.className = 'form-check form-check-inline';
+          const input = document.createElement('input');
+          input.type = 'checkbox';
+          input.className = 'form-check-input';
+          input.id = 'scope-' + scope;
+          input.value = scope;
+          const label = document.createElement('label');
+          label.className = 'form-check-label';
+          label.htmlFor = input.id;
+          label.textContent = scopeLabels[scope] + ' (' + scope + ')';
+          div.append(input, label);
+          scopeChecks.appendChild(div);
+        });
+      }
+
+      function renderKeys(keys) {
+        tableBody.innerHTML = '';
+        if (keys.length === 0) {
+          tableBody.innerHTML = '<tr><td colspan="6" class="text-center text-muted">APIキーはありません</td></tr>';
+          return;
+        }
+
+        keys.forEach((key) => {
+          const tr = document.createElement('tr');
+
+          tr.insertCell().textContent = key.name;
+
+          const prefixCell = tr.insertCell();
+          prefixCell.textContent = key.prefix + '…';
+          prefixCell.className = 'font-monospace text-center';
+
+          const scopesCell = tr.insertCell();
+          key.scopes.forEach((scope) => {
+            const badge = document.createElement('span');
+            badge.className = 'badge bg-secondary me-1';
+            badge.textContent = scope;
+            badge.title = scopeLabels[scope] || '';
+            scopesCell.appendChild(badge);
+          });
+
+          const createdCell = tr.insertCell();
+          createdCell.textContent = formatDateTime(new Date(key.created_at)) + ' ' + key.created_by;
+          createdCell.className = 'small';
+
+          const usedCell = tr.insertCell();
+          usedCell.textContent = key.last_used_at ? formatDateTime(new Date(key.last_used_at)) : '未使用';
+          usedCell.className = 'text-center';
+
+          const actionCell = tr.insertCell();
+          actionCell.className = 'text-center text-nowrap';
+          const rotateBtn = document.createElement('button');
+          rotateBtn.className = 'btn btn-sm btn-outline-warning';
+          rotateBtn.textContent = '再発行';
+          rotateBtn.addEventListener('click', () => rotateKey(key));
+          const deleteBtn = document.createElement('button');
+          deleteBtn.className = 'btn btn-sm btn-outline-danger ms-1';
+          deleteBtn.textContent = '削除';
+          deleteBtn.addEventListener('click', () => deleteKey(key));
+          actionCell.append(rotateBtn, deleteBtn);
+
+          tableBody.appendChild(tr);
+        });
+      }
+
+      function showNewKey(key) {
+        document.getElementById('newKeyValue').value = key;
+        document.getElementById('newKey').classList.remove('d-none');
+      }
+
+      async function rotateKey(key) {
+        if (!confirm(key.name + ' のキーを再発行しますか？今のキーはすぐに使えなくなります。')) return;
+        try {
+          const response = await fetch('/api/api_keys/' + encodeURIComponent(key.id) + '/rotate', { method: 'POST' });
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          showNewKey((await response.json()).key);
+        } catch (e) {
+          alert('再発行に失敗しました: ' + e.message);
+        }
+        loadKeys();
+      }
+
+      async function deleteKey(key) {
+        if (!confirm(key.name + ' のキーを削除しますか？')) return;
+        try {
+          const response = await fetch('/api/api_keys/' + encodeURIComponent(key.id), { method: 'DELETE' });
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+        } catch (e) {
+          alert('削除に失敗しました: ' + e.message);
+        }
+        loadKeys();
+      }
+
+      document.getElementById('createForm').addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const name = document.getElementById('keyName').value.trim();
+        const scopes = Array.from(scopeChecks.querySelectorAll('input:checked')).map((input) => input.value);
+        if (scopes.length === 0) {
+          alert('スコープを1つ以上選んでください');
+          return;
+        }
+        try {
+          const response = await fetch('/api/api_keys', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: name, scopes: scopes }),
+          });
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          showNewKey((await response.json()).key);
+          e.target.reset();
+        } catch (err) {
+          alert('作成に失敗しました: ' + err.message);
+        }
+        loadKeys();
+      });
+
+      document.getElementById('copyKeyBtn').addEventListener('click', () => {
+        navigator.clipboard.writeText(document.getElementById('newKeyValue').value);
+      });
+
+      function formatDateTime(date) {
+        return date.getFullYear() + '/' +
+          String(date.getMonth() + 1).padStart(2, '0') + '/' +
+          String(date.getDate()).padStart(2, '0') + ' ' +
+          String(date.getHours()).padStart(2, '0') + ':' +
+          String(date.getMinutes()).padStart(2, '0');
+      }
+
+      loadKeys();
+    </script>
+  `;
+
+  return getBaseTemplate('APIキー', content, scripts);
+}
+
+function getForbiddenPage(): string {
+  const content = `
+    <div class="alert alert-warning mt-3" role="alert">
+      このページを表示する権限がありません。必要な場合は管理者に連絡してください。
+    </div>
+  `;
+
+  return getBaseTemplate('権限がありません', content);
+}
+
+function getSessionsPage(): string {
+  const content = `
+    <h1>ログイン中のセッション</h1>
+    <div class="mb-3">
+      <span class="badge bg-primary" id="sessionCount">0 件</span>
+      <button id="refreshBtn" class="btn btn-sm btn-outline-secondary ms-2">更新</button>
+      <form method="post" action="/logout?all=1" class="d-inline">
+        <button type="submit" class="btn btn-sm btn-outline-danger ms-2" id="logoutAllBtn">自分を全端末からログアウト</button>
+      </form>
+    </div>
+    <table id="sessionsTable" class="table table-bordered table-striped">
+      <thead class="table-dark">
+        <tr>
+          <th class="text-center">ユーザー</th>
+          <th class="text-center">認証</th>
+          <th class="text-center">IPアドレス</th>
+          <th class="text-center">ブラウザ</th>
+          <th class="text-center">ログイン</th>
+          <th class="text-center">最終アクセス</th>
+          <th class="text-center">操作</th>
+        </tr>
+      </thead>
+      <tbody></tbody>
+    </table>
+    <div id="loading" class="loading">
+      <div class="spinner"></div>
+    </div>
+  `;
+
+  const scripts = `
+    <script>
+      const tableBody = document.querySelector('#sessionsTable tbody');
+      const sessionCount = document.getElementById('sessionCount');
+      const loadingElem = document.getElementById('loading');
+      const PROVIDERS = { google: 'Google', lineworks: 'LINE WORKS', cf_access: 'Cloudflare Access' };
+
+      async function loadSessions() {
+        loadingElem.classList.add('show');
+        tableBody.innerHTML = '';
+        try {
+          const response = await fetch('/api/sessions');
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+          const data = await response.json();
+          renderSessions(data.sessions);
+          sessionCount.textContent = data.total + ' 件';
+        } catch (e) {
+          console.error('Failed to load sessions:', e);
+          tableBody.innerHTML = '<tr><td colspan="7" class="text-center text-danger">データの取得に失敗しました</td></tr>';
+        } finally {
+          loadingElem.classList.remove('show');
+        }
+      }
+
+      function renderSessions(sessions) {
+        tableBody.innerHTML = '';
+        if (sessions.length === 0) {
+          tableBody.innerHTML = '<tr><td colspan="7" class="text-center text-muted">ログイン中のセッションはありません</td></tr>';
+          return;
+        }
+
+        sessions.forEach((session) => {
+          const tr = document.createElement('tr');
+
+          const userCell = tr.insertCell();
+          const name = document.createElement('div');
+          name.textContent = session.name;
+          if (session.current) {
+            const badge = document.createElement('span');
+            badge.className = 'badge bg-success ms-2';
+            badge.textContent = 'この端末';
+            name.appendChild(badge);
+          }
+          if (session.kiosk) {
+            const badge = document.createElement('span');
+            badge.className = 'badge bg-info text-dark ms-2';
+            badge.textContent = '共有PC';
+            name.appendChild(badge);
+          }
+          const email = document.createElement('div');
+          email.className = 'text-muted small';
+          email.textContent = session.email;
+          userCell.append(name, email);
+
+          const providerCell = tr.insertCell();
+          providerCell.textContent = PROVIDERS[session.provider] || session.provider;
+          providerCell.className = 'text-center';
+
+          const ipCell = tr.insertCell();
+          ipCell.textContent = session.ip;
+          ipCell.className = 'text-center';
+
+          const uaCell = tr.insertCell();
+          uaCell.textContent = session.user_agent;
+          uaCell.className = 'small text-break';
+
+          const createdCell = tr.insertCell();
+          createdCell.textContent = formatDateTime(new Date(session.created_at));
+          createdCell.className = 'text-center';
+
+          const lastSeenCell = tr.insertCell();
+          lastSeenCell.textContent = formatDateTime(new Date(session.last_seen));
+          lastSeenCell.className = 'text-center';
+
+          const actionCell = tr.insertCell();
+          actionCell.className = 'text-center text-nowrap';
+          const revokeBtn = document.createElement('button');
+          revokeBtn.className = 'btn btn-sm btn-outline-danger';
+          revokeBtn.textContent = 'ログアウト';
+          revokeBtn.addEventListener('click', () => revoke('/api/sessions/' + encodeURIComponent(session.jti),
+            'このセッションをログアウトさせますか？'));
+          const revokeAllBtn = document.createElement('button');
+          revokeAllBtn.className = 'btn btn-sm btn-danger ms-1';
+          revokeAllBtn.textContent = '全端末';
+          revokeAllBtn.addEventListener('click', () => revoke('/api/sessions?sub=' + encodeURIComponent(session.sub),
+            session.name + ' さんを全端末からログアウトさせますか？'));
+          actionCell.append(revokeBtn, revokeAllBtn);
+
+          tableBody.appendChild(tr);
+        });
+      }
+
+      async function revoke(url, message) {
+        if (!confirm(message)) return;
+        try {
+          const response = await fetch(url, { method: 'DELETE' });
+          if (!response.ok) throw new Error(await getApiErrorMessage(response));
+        } catch (e) {
+          alert('ログアウトに失敗しました: ' + e.message);
+        }
+        loadSessions();
+      }
+
+      function formatDateTime(date) {
+        return date.getFullYear() + '/' +
+          String(date.getMonth() + 1).padStart(2, '0') + '/' +
+          String(date.getDate()).padStart(2, '0') + ' ' +
+          String(date.getHours()).padStart(2, '0') + ':' +
+          String(date.getMinutes()).padStart(2, '0');
+      }
+
+      document.getElementById('logoutAllBtn').addEventListener('click', (e) => {
+        if (!confirm('この端末を含むすべての端末からログアウトしますか？')) e.preventDefault();
+      });
+      document.getElementById('refreshBtn').addEventListener('click', loadSessions);
+
+      loadSessions();
+    </script>
+  `;
+
+  return getBaseTemplate('セッション', content, scripts);
+}
+
 function getStyles(): string {
   return `
     body { padding: 20px; }
@@ -1250,6 +2433,15 @@ function getStyles(): string {
     .ws-connected { background: #28a745; color: white; }
     .ws-disconnected { background: #dc3545; color: white; }
     img.thumbnail { max-width: 200px; max-height: 150px; }
+    img.thumbnail[data-full] { cursor: zoom-in; }
+    .lightbox { display: none; position: fixed; inset: 0; z-index: 1050; background: rgba(0, 0, 0, 0.85); align-items: center; justify-content: center; cursor: zoom-out; }
+    .lightbox.show { display: flex; }
+    .lightbox img { max-width: 95vw; max-height: 95vh; }
+    @media print {
+      .nav-links, .no-print, .ws-status, #degraded-banner { display: none !important; }
+      body { padding: 0; }
+      .attendance-driver { break-inside: avoid; }
+    }
   `;
 }
 
@@ -1487,7 +2679,7 @@ function getLineworksAppLoginPage(request: Request, env: Env): Response {
 }
 
 // ログインページ（バックグラウンドで認証チェック）
-function getLoginPage(redirect: string = '/'): string {
+function getLoginPage(redirect: string = '/', kioskEnabled: boolean = false): string {
   const safeRedirect = redirect.replace(/"/g, '&quot;');
   return `<!DOCTYPE html>
 <html lang="ja">
@@ -1584,6 +2776,9 @@ function getLoginPage(redirect: string = '/'): string {
       width: 20px;
       height: 20px;
     }
+    .kiosk-option {
+      margin-bottom: 20px;
+    }
   </style>
 </head>
 <body>
@@ -1593,7 +2788,14 @@ function getLoginPage(redirect: string = '/'): string {
       <p>ログインしてください</p>
     </div>
 
-    <a href="/login/google" class="btn btn-login btn-google">
+    ${kioskEnabled ? `<div class="form-check kiosk-option">
+      <input class="form-check-input" type="checkbox" id="kioskCheck">
+      <label class="form-check-label small" for="kioskCheck">
+        この端末でログインを維持する（事務所の共有PC用）
+      </label>
+    </div>` : ''}
+
+    <a href="/login/google" class="btn btn-login btn-google" id="googleBtn">
       <svg class="icon-google" viewBox="0 0 24 24">
         <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
         <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
@@ -1624,6 +2826,17 @@ function getLoginPage(redirect: string = '/'): string {
     </p>
   </div>
   <script>
+    // 「ログインを維持」はOAuth開始時の kiosk=1 で伝える（コールバックで長期セッションを発行）
+    const kioskCheck = document.getElementById('kioskCheck');
+    if (kioskCheck) {
+      kioskCheck.addEventListener('change', function() {
+        ['googleBtn', 'lineworksBtn'].forEach(function(id) {
+          const link = document.getElementById(id);
+          link.href = link.pathname + (kioskCheck.checked ? '?kiosk=1' : '');
+        });
+      });
+    }
+
     // バックグラウンドで認証チェック（10秒間、500ms間隔）
     (async function() {
       for (let i = 0; i < 20; i++) {
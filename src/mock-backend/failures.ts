@@ -0,0 +1,56 @@
+// モックバックエンドの失敗パターン
+// 開発中・テスト中にバックエンド障害（UNAVAILABLE、タイムアウト、HTTPエラー等）を再現する
+
+export interface MockFailure {
+  // "timecard.DriverService/GetAll"、"timecard.DriverService/*" または "*"
+  method: string;
+  // trailer で返す gRPC ステータス（省略時は正常応答、delay_ms のみ適用）
+  grpc_status?: number;
+  message?: string;
+  // gRPC 応答の代わりに返す HTTP ステータス（502/503 等、プロキシ障害の再現用）
+  http_status?: number;
+  // 応答までの遅延（デッドライン超過の再現用）
+  delay_ms?: number;
+  // ストリーミング: N件送信した後に grpc_status で終了する
+  after_messages?: number;
+  // 適用回数（省略時は解除されるまでずっと）
+  times?: number;
+}
+
+export class FailureScript {
+  private rules: MockFailure[] = [];
+
+  add(rules: MockFailure | MockFailure[]): void {
+    for (const rule of Array.isArray(rules) ? rules : [rules]) {
+      if (typeof rule.method !== 'string') {
+        throw new Error('method is required');
+      }
+      this.rules.push({ ...rule });
+    }
+  }
+
+  clear(): void {
+    this.rules = [];
+  }
+
+  list(): MockFailure[] {
+    return this.rules.map((rule) => ({ ...rule }));
+  }
+
+  // path ("timecard.DriverService/GetAll") に一致する最初のルールを取り出す
+  take(path: string): MockFailure | null {
+    const service = path.split('/')[0];
+    const index = this.rules.findIndex((rule) =>
+      rule.method === '*' || rule.method === path || rule.method === `${service}/*`);
+    if (index < 0) return null;
+
+    const rule = this.rules[index];
+    if (rule.times !== undefined) {
+      rule.times--;
+      if (rule.times <= 0) {
+        this.rules.splice(index, 1);
+      }
+    }
+    return rule;
+  }
+}
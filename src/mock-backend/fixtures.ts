@@ -0,0 +1,226 @@
+// モックバックエンドの初期データ
+// 日時は起動時刻からの相対値（TimeRangeRequest のデフォルト「2日前〜現在」に入るように）
+
+// proto のメッセージと同じフィールド（camelCase）を持つプレーンなオブジェクト
+export interface Driver {
+  id: number;
+  name: string;
+}
+
+export interface ICLog {
+  id: string;
+  type: string;
+  detail?: string;
+  date: string;
+  iid?: string;
+  machineIp: string;
+}
+
+export interface ICNonReg {
+  id: string;
+  datetime: string;
+  deleted?: boolean;
+  registeredId?: number;
+}
+
+export interface PicData {
+  date: string;
+  cam: number;
+  picBase64: string;
+  detail: string;
+  machineIp: string;
+}
+
+export interface PicTmpData {
+  machineIp: string;
+  tmp: string;
+  amb: string;
+  dist: string;
+  date: string;
+  driverId?: number;
+  driverName?: string;
+  picData1?: string;
+  picData2?: string;
+}
+
+export interface PicICData extends ICLog {
+  picBase64?: string;
+}
+
+export interface TmpData {
+  machineIp: string;
+  tmp: string;
+  amb: string;
+  dist: string;
+  date: string;
+  // 測定したドライバーのID
+  id: number;
+}
+
+export interface FingerLog {
+  date: string;
+  machineIp: string;
+  id: number;
+  message: string;
+}
+
+export interface ConnectedClient {
+  socketId: string;
+  ipAddress: string;
+  connectedAt: string;
+  lastActivity: string;
+}
+
+export interface VersionInfo {
+  gitCommit: string;
+  gitCommitFull: string;
+  buildDate: string;
+  rustVersion: string;
+}
+
+export interface MockState {
+  drivers: Driver[];
+  icLogs: ICLog[];
+  icNonReg: ICNonReg[];
+  pics: PicData[];
+  picTmp: PicTmpData[];
+  picIc: PicICData[];
+  tmpData: TmpData[];
+  fingerLogs: FingerLog[];
+  clients: ConnectedClient[];
+  version: VersionInfo;
+  // ICカードID → ドライバーID（登録済みカード）
+  icCards: Map<string, number>;
+}
+
+// 1x1 PNG（写真データの代わり）
+export const SAMPLE_PICTURE = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+export const MACHINE_IPS = ['192.168.1.101', '192.168.1.102'];
+
+const DRIVERS: Driver[] = [
+  { id: 1001, name: '山田 太郎' },
+  { id: 1002, name: '佐藤 花子' },
+  { id: 1003, name: '鈴木 一郎' },
+  { id: 1004, name: '高橋 次郎' },
+  { id: 1005, name: '田中 三郎' },
+];
+
+const IC_CARDS: Array<[string, number]> = [
+  ['0123456789abcdef', 1001],
+  ['1123456789abcdef', 1002],
+  ['2123456789abcdef', 1003],
+  ['3123456789abcdef', 1004],
+];
+
+// 1日2回（出勤・退勤）× 2日分
+const PUNCH_HOURS = [-44, -36, -20, -12, -2];
+
+function hoursAgo(now: number, hours: number): string {
+  return new Date(now + hours * 60 * 60 * 1000).toISOString();
+}
+
+// 体温センサーのカンマ区切りデータ（8点）
+function sensorCsv(base: number, step: number): string {
+  return Array.from({ length: 8 }, (_, i) => (base + step * i).toFixed(2)).join(',');
+}
+
+export function createMockState(now: number = Date.now()): MockState {
+  const icCards = new Map(IC_CARDS);
+  const icLogs: ICLog[] = [];
+  const picTmp: PicTmpData[] = [];
+  const picIc: PicICData[] = [];
+  const tmpData: TmpData[] = [];
+  const fingerLogs: FingerLog[] = [];
+  const pics: PicData[] = [];
+
+  PUNCH_HOURS.forEach((hours, i) => {
+    IC_CARDS.forEach(([icId, driverId], j) => {
+      const date = hoursAgo(now, hours + j * 0.1);
+      const machineIp = MACHINE_IPS[(i + j) % MACHINE_IPS.length];
+      const driver = DRIVERS.find((d) => d.id === driverId)!;
+      const temperature = 36.2 + ((i + j) % 5) * 0.1;
+
+      icLogs.push({ id: icId, type: 'ic', detail: 'ic read', date, iid: String(driverId), machineIp });
+      picIc.push({ id: icId, type: 'ic', detail: 'ic read', date, iid: String(driverId), machineIp, picBase64: SAMPLE_PICTURE });
+      picTmp.push({
+        machineIp,
+        tmp: sensorCsv(temperature, 0.01),
+        amb: sensorCsv(24.5, 0.02),
+        dist: sensorCsv(30, 0.5),
+        date,
+        driverId,
+        driverName: driver.name,
+        picData1: SAMPLE_PICTURE,
+        picData2: SAMPLE_PICTURE,
+      });
+      tmpData.push({
+        id: driverId,
+        machineIp,
+        tmp: sensorCsv(temperature, 0.01),
+        amb: sensorCsv(24.5, 0.02),
+        dist: sensorCsv(30, 0.5),
+        date,
+      });
+      // 最後のカードは写真なしの体温データ
+      if (j < IC_CARDS.length - 1) {
+        pics.push({ date, cam: 1, picBase64: SAMPLE_PICTURE, detail: 'tmp inserted', machineIp });
+      }
+    });
+  });
+
+  // 体温測定なしの打刻
+  icLogs.push({ id: IC_CARDS[0][0], type: 'ic', detail: 'ic read', date: hoursAgo(now, -0.8), iid: String(IC_CARDS[0][1]), machineIp: MACHINE_IPS[1] });
+
+  // 指紋認証ログ
+  DRIVERS.slice(0, 3).forEach((driver, i) => {
+    fingerLogs.push({ date: hoursAgo(now, -3 + i * 0.2), machineIp: MACHINE_IPS[0], id: driver.id, message: 'finger matched' });
+  });
+  fingerLogs.push({ date: hoursAgo(now, -1), machineIp: MACHINE_IPS[1], id: 0, message: 'finger not matched' });
+
+  // 体温が高い記録（発熱アラートの確認用）
+  const feverDate = hoursAgo(now, -1 / 60);
+  picTmp.push({
+    machineIp: MACHINE_IPS[0],
+    tmp: sensorCsv(37.8, 0.01),
+    amb: sensorCsv(24.5, 0.02),
+    dist: sensorCsv(30, 0.5),
+    date: feverDate,
+    driverId: 1005,
+    driverName: '田中 三郎',
+    picData1: SAMPLE_PICTURE,
+    picData2: SAMPLE_PICTURE,
+  });
+  tmpData.push({ id: 1005, machineIp: MACHINE_IPS[0], tmp: sensorCsv(37.8, 0.01), amb: sensorCsv(24.5, 0.02), dist: sensorCsv(30, 0.5), date: feverDate });
+  pics.push({ date: feverDate, cam: 1, picBase64: SAMPLE_PICTURE, detail: 'tmp inserted', machineIp: MACHINE_IPS[0] });
+
+  const byDate = <T extends { date: string }>(a: T, b: T) => a.date.localeCompare(b.date);
+
+  return {
+    drivers: DRIVERS.map((d) => ({ ...d })),
+    icLogs: icLogs.sort(byDate),
+    icNonReg: [
+      { id: 'aa23456789abcdef', datetime: hoursAgo(now, -5) },
+      { id: 'bb23456789abcdef', datetime: hoursAgo(now, -3) },
+      { id: 'cc23456789abcdef', datetime: hoursAgo(now, -1), registeredId: 1005 },
+    ],
+    pics: pics.sort(byDate),
+    picTmp: picTmp.sort(byDate),
+    picIc: picIc.sort(byDate),
+    tmpData: tmpData.sort(byDate),
+    fingerLogs: fingerLogs.sort(byDate),
+    clients: MACHINE_IPS.map((ipAddress, i) => ({
+      socketId: `mock-socket-${i + 1}`,
+      ipAddress,
+      connectedAt: hoursAgo(now, -48),
+      lastActivity: hoursAgo(now, -i),
+    })),
+    version: {
+      gitCommit: 'mock',
+      gitCommitFull: 'mock-backend',
+      buildDate: new Date(now).toISOString(),
+      rustVersion: 'mock',
+    },
+    icCards,
+  };
+}
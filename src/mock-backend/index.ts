@@ -0,0 +1,256 @@
+// ローカル開発・テスト用のモック gRPC-Web バックエンド
+// 本番の Rust サーバーの代わりに proto/timecard.proto の全サービスを固定データで応答する
+//
+// 起動: npm run mock（http://localhost:8788）
+// .dev.vars に GRPC_API_URL=http://localhost:8788 を設定して npm run dev
+//
+// 失敗パターンの操作:
+//   GET    /__mock/failures  現在のルール一覧
+//   POST   /__mock/failures  ルール追加（MockFailure または配列）
+//   DELETE /__mock/failures  ルール全削除
+//   POST   /__mock/reset     データとルールを初期状態に戻す
+
+import { create, fromBinary, toBinary } from '@bufbuild/protobuf';
+import type { DescMessage, DescMethod } from '@bufbuild/protobuf';
+import { ConnectError, createHandlerContext, type MethodImplSpec } from '@connectrpc/connect';
+import {
+  FRAME_FLAG_MESSAGE,
+  FRAME_FLAG_TRAILER,
+  encodeBase64,
+  encodeFrame,
+  readFrames,
+  type GrpcWebFormat,
+} from '../grpc-web-frames';
+import { Code, GrpcError } from '../grpc-error';
+import { createMockState, type MockState } from './fixtures';
+import { createMockServices } from './services';
+import { FailureScript, type MockFailure } from './failures';
+
+export { createMockState, type MockState } from './fixtures';
+export type { MockFailure } from './failures';
+
+export interface Env {
+  MOCK_FAILURES?: string; // 起動時に有効にする失敗パターン（JSON配列）
+}
+
+export interface MockBackend {
+  readonly state: MockState;
+  readonly failures: FailureScript;
+  fetch(request: Request): Promise<Response>;
+  reset(): void;
+}
+
+export function createMockBackend(failures: MockFailure[] = []): MockBackend {
+  const script = new FailureScript();
+  script.add(failures);
+
+  let state = createMockState();
+  let methods = buildMethodTable(state);
+
+  return {
+    get state() {
+      return state;
+    },
+    failures: script,
+    reset() {
+      state = createMockState();
+      methods = buildMethodTable(state);
+      script.clear();
+    },
+    async fetch(request: Request): Promise<Response> {
+      const url = new URL(request.url);
+      if (url.pathname.startsWith('/__mock/')) {
+        return handleControl(request, url.pathname, this);
+      }
+      return handleRpc(request, url.pathname.slice(1), methods, script);
+    },
+  };
+}
+
+// "timecard.DriverService/GetAll" → 実装
+function buildMethodTable(state: MockState): Map<string, MethodImplSpec> {
+  const methods = new Map<string, MethodImplSpec>();
+  for (const spec of createMockServices(state)) {
+    for (const impl of Object.values(spec.methods)) {
+      methods.set(`${spec.service.typeName}/${impl.method.name}`, impl);
+    }
+  }
+  return methods;
+}
+
+async function handleControl(request: Request, path: string, backend: MockBackend): Promise<Response> {
+  if (path === '/__mock/failures') {
+    if (request.method === 'GET') {
+      return Response.json(backend.failures.list());
+    }
+    if (request.method === 'POST') {
+      try {
+        backend.failures.add(await request.json() as MockFailure | MockFailure[]);
+      } catch (e) {
+        return Response.json({ error: e instanceof Error ? e.message : String(e) }, { status: 400 });
+      }
+      return Response.json(backend.failures.list());
+    }
+    if (request.method === 'DELETE') {
+      backend.failures.clear();
+      return Response.json([]);
+    }
+  }
+
+  if (path === '/__mock/reset' && request.method === 'POST') {
+    backend.reset();
+    return Response.json({ success: true });
+  }
+
+  return new Response('Not found', { status: 404 });
+}
+
+function detectFormat(contentType: string | null): GrpcWebFormat | null {
+  if (!contentType) return null;
+  if (contentType.startsWith('application/grpc-web-text')) return 'text';
+  if (contentType === 'application/grpc-web' || contentType.startsWith('application/grpc-web+proto')) return 'binary';
+  return null;
+}
+
+async function handleRpc(
+  request: Request,
+  path: string,
+  methods: Map<string, MethodImplSpec>,
+  failures: FailureScript
+): Promise<Response> {
+  const format = detectFormat(request.headers.get('Content-Type'));
+  if (request.method !== 'POST' || !format || !request.body) {
+    return new Response('Unsupported Media Type', { status: 415 });
+  }
+
+  const encode = (flag: number, data: Uint8Array): Uint8Array => {
+    const frame = encodeFrame(flag, data);
+    return format === 'text' ? new TextEncoder().encode(encodeBase64(frame)) : frame;
+  };
+  const respond = (body: BodyInit) => new Response(body, {
+    headers: { 'Content-Type': format === 'text' ? 'application/grpc-web-text+proto' : 'application/grpc-web+proto' },
+  });
+  const trailer = (code: Code | 0, message = '') => encode(FRAME_FLAG_TRAILER, new TextEncoder().encode(
+    `grpc-status:${code}\r\n` + (message ? `grpc-message:${encodeURIComponent(message)}\r\n` : '')));
+
+  const failure = failures.take(path);
+  if (failure?.delay_ms) {
+    await new Promise((resolve) => setTimeout(resolve, failure.delay_ms));
+  }
+  if (failure?.http_status) {
+    return new Response(failure.message ?? 'mock failure', { status: failure.http_status });
+  }
+
+  const spec = methods.get(path);
+  if (!spec) {
+    return respond(trailer(Code.Unimplemented, `${path} is not implemented`));
+  }
+
+  let input: unknown;
+  try {
+    input = await readRequest(request.body, format, spec.method.input);
+  } catch (e) {
+    return respond(trailer(Code.Internal, e instanceof Error ? e.message : String(e)));
+  }
+
+  const failAfter = failure?.grpc_status !== undefined ? failure.after_messages ?? 0 : Infinity;
+  // 1件も送らずに失敗する場合は実装を呼ばない（副作用なし）
+  if (failAfter === 0 || (failAfter !== Infinity && spec.kind === 'unary')) {
+    return respond(trailer(failure!.grpc_status!, failure!.message ?? 'mock failure'));
+  }
+
+  const context = createHandlerContext({
+    service: spec.method.parent,
+    method: spec.method,
+    protocolName: 'grpc-web',
+    requestMethod: request.method,
+    url: request.url,
+    requestHeader: request.headers,
+    requestSignal: request.signal,
+  });
+  const output = spec.method.output;
+
+  if (spec.kind === 'unary') {
+    try {
+      const message = await spec.impl(input as never, context);
+      return respond(concat(
+        encode(FRAME_FLAG_MESSAGE, toBinary(output, create(output, message))),
+        trailer(0)
+      ));
+    } catch (e) {
+      const { code, message } = toStatus(e);
+      return respond(trailer(code, message));
+    }
+  }
+
+  if (spec.kind !== 'server_streaming') {
+    return respond(trailer(Code.Unimplemented, `${spec.kind} RPC is not supported`));
+  }
+
+  const iterator = spec.impl(input as never, context)[Symbol.asyncIterator]();
+  let sent = 0;
+  return respond(new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (sent >= failAfter) {
+          controller.enqueue(trailer(failure!.grpc_status!, failure!.message ?? 'mock failure'));
+          controller.close();
+          await iterator.return?.();
+          return;
+        }
+        const next = await iterator.next();
+        if (next.done) {
+          controller.enqueue(trailer(0));
+          controller.close();
+          return;
+        }
+        controller.enqueue(encode(FRAME_FLAG_MESSAGE, toBinary(output, create(output, next.value))));
+        sent++;
+      } catch (e) {
+        const { code, message } = toStatus(e);
+        controller.enqueue(trailer(code, message));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  }));
+}
+
+async function readRequest(body: ReadableStream<Uint8Array>, format: GrpcWebFormat, schema: DescMessage) {
+  for await (const frame of readFrames(body, format)) {
+    if (frame.flag === FRAME_FLAG_MESSAGE) {
+      return fromBinary(schema, frame.data);
+    }
+  }
+  return create(schema);
+}
+
+function toStatus(e: unknown): { code: Code; message: string } {
+  if (e instanceof ConnectError) return { code: e.code, message: e.rawMessage };
+  if (e instanceof GrpcError) return { code: e.code, message: e.grpcMessage };
+  return { code: Code.Internal, message: e instanceof Error ? e.message : String(e) };
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// wrangler dev 用（isolate内でデータを保持）
+let backend: MockBackend | null = null;
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    if (!backend) {
+      backend = createMockBackend(env.MOCK_FAILURES ? JSON.parse(env.MOCK_FAILURES) as MockFailure[] : []);
+    }
+    return backend.fetch(request);
+  },
+};
@@ -0,0 +1,208 @@
+// モックバックエンドのサービス実装（proto/timecard.proto の全サービス）
+
+import { ConnectError, Code, createServiceImplSpec, type ServiceImplSpec } from '@connectrpc/connect';
+import {
+  ClientService,
+  DriverService,
+  FingerLogService,
+  ICLogService,
+  ICNonRegService,
+  NotificationService,
+  PicDataService,
+  TestService,
+  TmpDataService,
+  VapidKeyService,
+  VersionService,
+} from '../gen/timecard_pb';
+import type { ICLog, MockState } from './fixtures';
+
+// TimeRangeRequest のデフォルト期間
+const DEFAULT_RANGE_MS = 2 * 24 * 60 * 60 * 1000; // 2日間
+
+interface TimeRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+interface Pagination {
+  limit?: number;
+  startDate?: string;
+  offset?: number;
+}
+
+function inRange<T extends { date: string }>(items: T[], range: TimeRange): T[] {
+  const end = range.endDate ? new Date(range.endDate).getTime() : Date.now();
+  const start = range.startDate ? new Date(range.startDate).getTime() : end - DEFAULT_RANGE_MS;
+  return items.filter((item) => {
+    const time = new Date(item.date).getTime();
+    return time >= start && time <= end;
+  });
+}
+
+// 新しい順に offset/limit で切り出す
+function paginate<T extends { date: string }>(items: T[], page: Pagination, defaultLimit: number): T[] {
+  const start = page.startDate ? new Date(page.startDate).getTime() : null;
+  const offset = page.offset ?? 0;
+  return items
+    .filter((item) => start === null || new Date(item.date).getTime() >= start)
+    .slice()
+    .reverse()
+    .slice(offset, offset + (page.limit ?? defaultLimit));
+}
+
+function findDriverName(state: MockState, iid: string | undefined): string | undefined {
+  if (!iid) return undefined;
+  return state.drivers.find((d) => d.id === parseInt(iid))?.name;
+}
+
+function withDriverName(state: MockState, log: ICLog) {
+  return { ...log, driverName: findDriverName(state, log.iid) };
+}
+
+function randomToken(bytes: number): string {
+  const data = crypto.getRandomValues(new Uint8Array(bytes));
+  return btoa(String.fromCharCode(...data)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function createMockServices(state: MockState): ServiceImplSpec[] {
+  return [
+    createServiceImplSpec<typeof DriverService>(DriverService, {
+      getAll() {
+        return { drivers: state.drivers };
+      },
+      getById(req) {
+        const driver = state.drivers.find((d) => d.id === req.driverId);
+        if (!driver) {
+          throw new ConnectError(`driver ${req.driverId} not found`, Code.NotFound);
+        }
+        return driver;
+      },
+      reload() {
+        return { drivers: state.drivers };
+      },
+    }),
+
+    createServiceImplSpec<typeof ICLogService>(ICLogService, {
+      getRecent(req) {
+        return { logs: inRange(state.icLogs, req) };
+      },
+      getRecentDesc(req) {
+        return { logs: inRange(state.icLogs, req).reverse() };
+      },
+      getWithDriver(req) {
+        return { logs: inRange(state.icLogs, req).map((log) => withDriverName(state, log)) };
+      },
+      getLatestWithDriver(req) {
+        return { logs: paginate(state.icLogs, req, 100).map((log) => withDriverName(state, log)) };
+      },
+      getWithoutTmp(req) {
+        const withoutTmp = state.icLogs.filter((log) =>
+          !state.picTmp.some((tmp) => tmp.date === log.date && tmp.machineIp === log.machineIp));
+        return { logs: paginate(withoutTmp, req, 100) };
+      },
+    }),
+
+    createServiceImplSpec<typeof PicDataService>(PicDataService, {
+      getAll() {
+        return { pics: inRange(state.pics, {}) };
+      },
+      getTmp(req) {
+        return { data: paginate(state.picTmp, req, 30) };
+      },
+      getIC(req) {
+        return { data: paginate(state.picIc, req, 30) };
+      },
+    }),
+
+    createServiceImplSpec<typeof TmpDataService>(TmpDataService, {
+      getAll(req) {
+        return { data: paginate(state.tmpData, req, 30) };
+      },
+      getWithoutPic(req) {
+        const withoutPic = state.tmpData.filter((tmp) =>
+          !state.pics.some((pic) => pic.date === tmp.date && pic.machineIp === tmp.machineIp));
+        return { data: paginate(withoutPic, req, 30) };
+      },
+    }),
+
+    createServiceImplSpec<typeof FingerLogService>(FingerLogService, {
+      getRecent(req) {
+        return { logs: inRange(state.fingerLogs, req) };
+      },
+    }),
+
+    createServiceImplSpec<typeof ICNonRegService>(ICNonRegService, {
+      getAll(req) {
+        const items = state.icNonReg
+          .filter((item) => !item.deleted)
+          .map((item) => ({ ...item, date: item.datetime }));
+        return { items: inRange(items, req) };
+      },
+      update(req) {
+        const item = state.icNonReg.find((i) => i.id === req.icId);
+        if (!item) {
+          throw new ConnectError(`ic ${req.icId} not found`, Code.NotFound);
+        }
+        item.registeredId = req.driverId;
+        return {};
+      },
+      cancelReservation(req) {
+        const item = state.icNonReg.find((i) => i.id === req.icId);
+        if (!item) {
+          throw new ConnectError(`ic ${req.icId} not found`, Code.NotFound);
+        }
+        item.registeredId = undefined;
+        return {};
+      },
+      registerDirect(req) {
+        const driver = state.drivers.find((d) => d.id === req.driverId);
+        if (!driver) {
+          return { success: false, message: `ドライバー ${req.driverId} が見つかりません` };
+        }
+        state.icCards.set(req.icId, driver.id);
+        state.icNonReg = state.icNonReg.filter((i) => i.id !== req.icId);
+        return { success: true, message: '登録しました', icId: req.icId, driverId: driver.id, driverName: driver.name };
+      },
+      deleteIc(req) {
+        if (!state.icCards.delete(req.icId)) {
+          return { success: false, message: `IC ${req.icId} は登録されていません` };
+        }
+        return { success: true, message: '削除しました' };
+      },
+    }),
+
+    createServiceImplSpec<typeof VapidKeyService>(VapidKeyService, {
+      generate() {
+        return { publicKey: randomToken(65), privateKey: randomToken(32), uuid: crypto.randomUUID() };
+      },
+    }),
+
+    createServiceImplSpec<typeof NotificationService>(NotificationService, {
+      broadcastEvent() {
+        return {};
+      },
+      resolveAndBroadcast(req) {
+        const name = req.data ? state.drivers.find((d) => d.id === req.data!.id)?.name : undefined;
+        return { ...req, data: req.data ? { ...req.data, name: name ?? req.data.name } : undefined };
+      },
+    }),
+
+    createServiceImplSpec<typeof TestService>(TestService, {
+      getTestData() {
+        return { data: [{ id: 1, datetime: Math.floor(Date.now() / 1000) }] };
+      },
+    }),
+
+    createServiceImplSpec<typeof ClientService>(ClientService, {
+      getAll() {
+        return { clients: state.clients, total: state.clients.length };
+      },
+    }),
+
+    createServiceImplSpec<typeof VersionService>(VersionService, {
+      getVersion() {
+        return state.version;
+      },
+    }),
+  ];
+}
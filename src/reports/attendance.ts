@@ -0,0 +1,187 @@
+// 月次勤怠レポート
+// ICタッチをドライバーごとに古い順に並べ、出勤・退勤の組にして勤務時間を集計する
+// 出勤・退勤はICログの種別（type）で判定し、種別で区別しない端末のタッチは交互に出勤・退勤とみなす
+// 日付はすべて日本時間。日をまたぐ勤務（夜勤）は出勤した日の勤務として数える
+
+import type { IcLogDetailRow } from '../grpc-client';
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+// 出勤からこの時間を超えたタッチは退勤ではなく次の出勤とみなす（前の勤務は退勤なし）
+const MAX_SHIFT_MS = 18 * 60 * 60 * 1000;
+// 連続タッチ（読み取りの重複）として無視する間隔
+const DUPLICATE_TOUCH_MS = 5 * 60 * 1000;
+// 月初の最初のタッチが前月の勤務の退勤かどうかを判定するために遡る期間
+// （休日などで MAX_SHIFT_MS 以上空いたところで出勤・退勤の組が揃う）
+const LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+// 出勤・退勤を表すICログの種別
+const CLOCK_IN_TYPES = new Set(['in', '出勤']);
+const CLOCK_OUT_TYPES = new Set(['out', '退勤']);
+
+export interface AttendanceShift {
+  date: string; // 出勤日（YYYY-MM-DD、出勤のタッチがない場合は退勤日）
+  clock_in: string | null; // 出勤のタッチがない場合は null
+  clock_out: string | null; // 退勤のタッチがない場合は null
+  worked_minutes: number | null;
+  overnight: boolean; // 退勤が翌日以降
+  machine_ip: string;
+}
+
+export interface DriverAttendance {
+  driver_id: number;
+  driver_name: string | undefined;
+  shifts: AttendanceShift[];
+  days_worked: number;
+  total_minutes: number;
+  missing_clock_out: number;
+  missing_clock_in: number;
+}
+
+export interface AttendanceReport {
+  month: string; // YYYY-MM
+  start: string;
+  end: string;
+  drivers: DriverAttendance[];
+}
+
+export function isValidMonth(month: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
+}
+
+// 日本時間の今月（YYYY-MM）
+export function currentMonthJst(now: Date = new Date()): string {
+  return new Date(now.getTime() + JST_OFFSET_MS).toISOString().slice(0, 7);
+}
+
+// 日本時間でその月の1日0時〜翌月1日0時（ISO 8601）
+export function monthRangeJst(month: string): { start: string; end: string } {
+  const [year, mon] = month.split('-').map((v) => parseInt(v));
+  return {
+    start: new Date(Date.UTC(year, mon - 1, 1) - JST_OFFSET_MS).toISOString(),
+    end: new Date(Date.UTC(year, mon, 1) - JST_OFFSET_MS).toISOString(),
+  };
+}
+
+// 月をまたぐ勤務を判定するため、前は LOOKBACK_MS、後ろは月末に出勤した勤務の退勤まで含めて取得する
+export function fetchRangeJst(month: string): { start: string; end: string } {
+  const { start, end } = monthRangeJst(month);
+  return {
+    start: new Date(new Date(start).getTime() - LOOKBACK_MS).toISOString(),
+    end: new Date(new Date(end).getTime() + MAX_SHIFT_MS).toISOString(),
+  };
+}
+
+// 日本時間の日付（YYYY-MM-DD）
+export function jstDate(time: number): string {
+  return new Date(time + JST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+// logs は fetchRangeJst(month) の範囲のICログ（順不同）。names はICログにドライバー名がない場合の補完用
+export function buildAttendanceReport(
+  month: string,
+  logs: IcLogDetailRow[],
+  names: Map<number, string> = new Map()
+): AttendanceReport {
+  const { start, end } = monthRangeJst(month);
+  const monthStart = new Date(start).getTime();
+  const monthEnd = new Date(end).getTime();
+
+  const byDriver = new Map<number, IcLogDetailRow[]>();
+  for (const log of logs) {
+    if (log.driver_id === null) continue;
+    if (!byDriver.has(log.driver_id)) byDriver.set(log.driver_id, []);
+    byDriver.get(log.driver_id)!.push(log);
+  }
+
+  const drivers: DriverAttendance[] = [];
+  for (const [driverId, driverLogs] of byDriver) {
+    const shifts = pairShifts(driverLogs)
+      .filter((shift) => {
+        const clockIn = new Date(shift.clock_in ?? shift.clock_out!).getTime();
+        return clockIn >= monthStart && clockIn < monthEnd;
+      });
+    if (shifts.length === 0) continue;
+
+    drivers.push({
+      driver_id: driverId,
+      driver_name: driverLogs.find((log) => log.driver_name)?.driver_name ?? names.get(driverId),
+      shifts,
+      days_worked: new Set(shifts.map((shift) => shift.date)).size,
+      total_minutes: shifts.reduce((sum, shift) => sum + (shift.worked_minutes ?? 0), 0),
+      missing_clock_out: shifts.filter((shift) => shift.clock_out === null).length,
+      missing_clock_in: shifts.filter((shift) => shift.clock_in === null).length,
+    });
+  }
+
+  drivers.sort((a, b) => a.driver_id - b.driver_id);
+  return { month, start, end, drivers };
+}
+
+type Touch = { time: number; machineIp: string; kind: 'in' | 'out' | null };
+
+function touchKind(type: string): Touch['kind'] {
+  if (CLOCK_IN_TYPES.has(type)) return 'in';
+  if (CLOCK_OUT_TYPES.has(type)) return 'out';
+  return null;
+}
+
+function pairShifts(logs: IcLogDetailRow[]): AttendanceShift[] {
+  const touches = logs
+    .map((log): Touch => ({ time: new Date(log.datetime).getTime(), machineIp: log.machine_ip, kind: touchKind(log.type) }))
+    .filter((touch) => !Number.isNaN(touch.time))
+    .sort((a, b) => a.time - b.time);
+
+  const shifts: AttendanceShift[] = [];
+  let open: Touch | null = null;
+  let last: Touch | null = null;
+
+  const close = (clockIn: Touch, clockOut: number | null) => {
+    shifts.push({
+      date: jstDate(clockIn.time),
+      clock_in: new Date(clockIn.time).toISOString(),
+      clock_out: clockOut !== null ? new Date(clockOut).toISOString() : null,
+      worked_minutes: clockOut !== null ? Math.round((clockOut - clockIn.time) / 60_000) : null,
+      overnight: clockOut !== null && jstDate(clockOut) !== jstDate(clockIn.time),
+      machine_ip: clockIn.machineIp,
+    });
+  };
+  // 出勤のタッチがない退勤
+  const unmatchedClockOut = (clockOut: Touch) => {
+    shifts.push({
+      date: jstDate(clockOut.time),
+      clock_in: null,
+      clock_out: new Date(clockOut.time).toISOString(),
+      worked_minutes: null,
+      overnight: false,
+      machine_ip: clockOut.machineIp,
+    });
+  };
+
+  for (const touch of touches) {
+    const duplicate = last !== null && touch.time - last.time < DUPLICATE_TOUCH_MS && touch.kind === last.kind;
+    last = touch;
+    if (duplicate) continue;
+
+    const withinShift = open !== null && touch.time - open.time <= MAX_SHIFT_MS;
+    if (touch.kind === 'in') {
+      if (open) close(open, null);
+      open = touch;
+    } else if (touch.kind === 'out') {
+      if (withinShift) {
+        close(open!, touch.time);
+      } else {
+        if (open) close(open, null);
+        unmatchedClockOut(touch);
+      }
+      open = null;
+    } else if (withinShift) {
+      close(open!, touch.time);
+      open = null;
+    } else {
+      if (open) close(open, null);
+      open = touch;
+    }
+  }
+  if (open) close(open, null);
+
+  return shifts;
+}
@@ -0,0 +1,215 @@
+// ICログのエクスポート（CSV / Excel）
+// 1年分でも Worker 内に溜めないよう、受信した行から順に書き出す
+
+import Encoding from 'encoding-japanese';
+import { Zip, ZipDeflate } from 'fflate';
+import type { IcLogDetailRow } from '../grpc-client';
+
+export type ExportFormat = 'csv' | 'xlsx';
+// sjis: 古い Excel 向け、utf8: BOM 付き UTF-8
+export type CsvEncoding = 'sjis' | 'utf8';
+
+const COLUMNS = ['日時', 'ドライバーID', '氏名', 'カードID', '端末', '種別'];
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+// XLSX の行をまとめて圧縮する件数
+const XLSX_BATCH_ROWS = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// 最初の1行は先に受信し、バックエンドのエラーを HTTP ステータスで返せるようにする
+// （以降のエラーはストリームを中断し、ダウンロード失敗としてブラウザに伝える）
+export async function exportResponse(
+  rows: AsyncIterable<IcLogDetailRow>,
+  format: ExportFormat,
+  encoding: CsvEncoding,
+  filename: string
+): Promise<Response> {
+  const iterator = rows[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  const rest = resume(first, iterator);
+
+  const body = format === 'xlsx' ? xlsxStream(rest) : csvStream(rest, encoding);
+  const contentType = CONTENT_TYPES[format] + (format === 'csv' ? `; charset=${encoding === 'sjis' ? 'Shift_JIS' : 'UTF-8'}` : '');
+  return new Response(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    },
+  });
+}
+
+async function* resume<T>(first: IteratorResult<T>, iterator: AsyncIterator<T>): AsyncGenerator<T> {
+  try {
+    for (let next = first; !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
+
+function csvStream(rows: AsyncIterator<IcLogDetailRow>, encoding: CsvEncoding): ReadableStream<Uint8Array> {
+  const encode = (text: string): Uint8Array => encoding === 'sjis'
+    ? new Uint8Array(Encoding.convert(Encoding.stringToCode(text), { to: 'SJIS', from: 'UNICODE' }))
+    : new TextEncoder().encode(text);
+  let header = true;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (header) {
+        header = false;
+        const bom = encoding === 'utf8' ? '\uFEFF' : '';
+        controller.enqueue(encode(bom + csvLine(COLUMNS)));
+        return;
+      }
+      try {
+        const { done, value } = await rows.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encode(csvLine(toValues(value))));
+      } catch (error) {
+        console.error('Export stream error:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await rows.return?.();
+    },
+  });
+}
+
+function xlsxStream(rows: AsyncIterator<IcLogDetailRow>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const zip = new Zip((error, chunk, final) => {
+    if (error) {
+      controller.error(error);
+      return;
+    }
+    controller.enqueue(chunk);
+    if (final) controller.close();
+  });
+  let sheet: ZipDeflate | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+    async pull() {
+      if (!sheet) {
+        for (const [name, xml] of Object.entries(XLSX_PARTS)) {
+          const file = new ZipDeflate(name);
+          zip.add(file);
+          file.push(encoder.encode(xml), true);
+        }
+        sheet = new ZipDeflate('xl/worksheets/sheet1.xml');
+        zip.add(sheet);
+        sheet.push(encoder.encode(SHEET_HEADER + xlsxRow(COLUMNS.map((c) => ({ text: c })))));
+        return;
+      }
+
+      try {
+        let xml = '';
+        for (let i = 0; i < XLSX_BATCH_ROWS; i++) {
+          const { done, value } = await rows.next();
+          if (done) {
+            sheet.push(encoder.encode(xml + SHEET_FOOTER), true);
+            zip.end();
+            return;
+          }
+          const [date, ...rest] = toValues(value);
+          xml += xlsxRow([{ date: value.datetime, text: date }, ...rest.map((text) => ({ text }))]);
+        }
+        sheet.push(encoder.encode(xml));
+      } catch (error) {
+        console.error('Export stream error:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      zip.terminate();
+      await rows.return?.();
+    },
+  });
+}
+
+function toValues(row: IcLogDetailRow): string[] {
+  return [
+    formatJst(row.datetime),
+    row.driver_id !== null ? String(row.driver_id) : '',
+    row.driver_name ?? '',
+    row.ic_id,
+    row.machine_ip,
+    row.type,
+  ];
+}
+
+// 日本時間の "YYYY/MM/DD HH:mm:ss"
+function formatJst(value: string): string {
+  const iso = new Date(new Date(value).getTime() + JST_OFFSET_MS).toISOString();
+  return `${iso.slice(0, 10).replace(/-/g, '/')} ${iso.slice(11, 19)}`;
+}
+
+function csvLine(values: string[]): string {
+  return values.map((value) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(',') + '\r\n';
+}
+
+// 日時は Excel のシリアル値（日本時間）で書き、styles.xml の書式で表示する
+function xlsxRow(cells: Array<{ text: string; date?: string }>): string {
+  return '<row>' + cells.map((cell) => {
+    if (cell.date) {
+      const serial = (new Date(cell.date).getTime() + JST_OFFSET_MS) / 86_400_000 + 25_569;
+      return `<c s="1"><v>${serial}</v></c>`;
+    }
+    return `<c t="inlineStr"><is><t>${escapeXml(cell.text)}</t></is></c>`;
+  }).join('') + '</row>';
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[c]!);
+}
+
+const SHEET_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<cols><col min="1" max="1" width="20" customWidth="1"/><col min="3" max="4" width="18" customWidth="1"/>' +
+  '<col min="5" max="5" width="15" customWidth="1"/></cols><sheetData>';
+const SHEET_FOOTER = '</sheetData></worksheet>';
+
+const XLSX_PARTS: Record<string, string> = {
+  '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>',
+  '_rels/.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/workbook.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="打刻一覧" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>',
+  'xl/styles.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy/mm/dd hh:mm:ss"/></numFmts>' +
+    '<fonts count="1"><font><sz val="11"/><name val="Yu Gothic"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+    '</styleSheet>',
+};
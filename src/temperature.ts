@@ -0,0 +1,78 @@
+// 体温チェック（発熱しきい値）
+// 端末の tmp はセンサー8点のカンマ区切りで、最大値をその測定の体温とみなす
+
+export const DEFAULT_FEVER_THRESHOLD = 37.5;
+
+export function getFeverThreshold(env: { FEVER_THRESHOLD?: string }): number {
+  const threshold = env.FEVER_THRESHOLD ? parseFloat(env.FEVER_THRESHOLD) : NaN;
+  return Number.isFinite(threshold) ? threshold : DEFAULT_FEVER_THRESHOLD;
+}
+
+// センサーのカンマ区切りデータ → 数値配列（空・不正な値は除く）
+export function parseSensorCsv(value: string): number[] {
+  return value
+    .split(',')
+    .map((v) => parseFloat(v))
+    .filter((v) => Number.isFinite(v));
+}
+
+// "36.5,36.6,..." / 数値 / 数値配列 → 最大値
+export function maxTemperature(tmp: unknown): number | null {
+  let values: number[] = [];
+  if (typeof tmp === 'number') {
+    values = [tmp];
+  } else if (typeof tmp === 'string') {
+    values = parseSensorCsv(tmp);
+  } else if (Array.isArray(tmp)) {
+    values = tmp.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+  }
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+export function isFever(temperature: number | null, threshold: number): boolean {
+  return temperature !== null && temperature >= threshold;
+}
+
+// 日本時間の今日0時（ISO 8601）
+export function startOfTodayJst(now: Date = new Date()): string {
+  const jst = new Date(now.getTime() + 9 * 60 * 60 * 1000);
+  jst.setUTCHours(0, 0, 0, 0);
+  return new Date(jst.getTime() - 9 * 60 * 60 * 1000).toISOString();
+}
+
+// /api/broadcast で届くイベント（{ type: 'hello', data: { status, data: { time, tmp, id, name, ... }, ip } }）
+// から発熱アラートを作る。体温は data.data.tmp（カンマ区切り）または data.data.temperature
+export interface TemperatureAlert {
+  time: string;
+  ip: string;
+  id: number | null;
+  name: string | null;
+  temperature: number;
+  threshold: number;
+}
+
+export function detectFeverEvent(message: string, threshold: number): TemperatureAlert | null {
+  let event: { type?: string; data?: { status?: string; ip?: string; data?: Record<string, unknown> } };
+  try {
+    event = JSON.parse(message);
+  } catch {
+    return null;
+  }
+  if (event.type !== 'hello' || event.data?.status !== 'tmp inserted' || !event.data.data) {
+    return null;
+  }
+
+  const data = event.data.data;
+  const temperature = maxTemperature(data.tmp ?? data.temperature);
+  if (temperature === null || !isFever(temperature, threshold)) {
+    return null;
+  }
+  return {
+    time: typeof data.time === 'string' ? data.time : new Date().toISOString(),
+    ip: event.data.ip ?? '',
+    id: typeof data.id === 'number' && data.id > 0 ? data.id : null,
+    name: typeof data.name === 'string' && data.name ? data.name : null,
+    temperature,
+    threshold,
+  };
+}
@@ -0,0 +1,47 @@
+// 端末写真のサムネイル生成（WASM の画像コーデック photon）
+// 写真一覧では縮小画像を表示し、原寸はライトボックスで開いたときだけ取得する
+
+import { PhotonImage, SamplingFilter, resize } from '@cf-wasm/photon';
+
+// size パラメータで選べる長辺のピクセル数
+export const THUMBNAIL_SIZES = [100, 200, 400] as const;
+export type ThumbnailSize = typeof THUMBNAIL_SIZES[number];
+
+const JPEG_QUALITY = 80;
+
+export function parseThumbnailSize(value: string): ThumbnailSize | null {
+  const size = Number(value);
+  return THUMBNAIL_SIZES.find((s) => s === size) ?? null;
+}
+
+export function detectImageType(bytes: Uint8Array): 'image/jpeg' | 'image/png' {
+  // 端末の写真は JPEG、古いデータやモックは PNG
+  return bytes[0] === 0xff && bytes[1] === 0xd8 ? 'image/jpeg' : 'image/png';
+}
+
+// 長辺を size 以下に縮小した JPEG（元画像より大きくはしない）
+export function createThumbnail(bytes: Uint8Array, size: ThumbnailSize): Uint8Array {
+  const image = PhotonImage.new_from_byteslice(bytes);
+  try {
+    const width = image.get_width();
+    const height = image.get_height();
+    const scale = Math.min(1, size / Math.max(width, height));
+    if (scale === 1) {
+      return image.get_bytes_jpeg(JPEG_QUALITY);
+    }
+
+    const resized = resize(
+      image,
+      Math.max(1, Math.round(width * scale)),
+      Math.max(1, Math.round(height * scale)),
+      SamplingFilter.Triangle
+    );
+    try {
+      return resized.get_bytes_jpeg(JPEG_QUALITY);
+    } finally {
+      resized.free();
+    }
+  } finally {
+    image.free();
+  }
+}
@@ -0,0 +1,417 @@
+import { env } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as jose from 'jose';
+import { strFromU8, unzipSync } from 'fflate';
+import { handleApiRequest } from '../src/api/routes';
+import { Code } from '../src/grpc-error';
+import type { MockBackend } from '../src/mock-backend';
+import { TEST_USER, installMockBackend } from './helpers';
+
+const user = { ...TEST_USER, role: 'admin' as const, iat: 0, exp: 0 };
+// サーキットブレーカーの状態を他のテストファイルと共有しないよう専用のURL
+const apiEnv = { ...env, GRPC_API_URL: 'http://grpc-api.test' };
+
+function api(path: string, init?: RequestInit): Promise<Response> {
+  return handleApiRequest(new Request(`https://timecard.test${path}`, init), apiEnv, user);
+}
+
+function post(path: string, body: unknown): Promise<Response> {
+  return api(path, { method: 'POST', body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('handleApiRequest', () => {
+  let backend: MockBackend;
+
+  beforeEach(() => {
+    backend = installMockBackend(apiEnv.GRPC_API_URL);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the driver list with an ETag', async () => {
+    const response = await api('/api/drivers');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toContainEqual({ id: 1002, name: '佐藤 花子' });
+
+    const etag = response.headers.get('ETag')!;
+    const revalidated = await api('/api/drivers', { headers: { 'If-None-Match': etag } });
+    expect(revalidated.status).toBe(304);
+  });
+
+  it('validates driver_id', async () => {
+    const response = await api('/api/driver_id');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: { code: 'INVALID_ARGUMENT', message: 'driver_id を指定してください' } });
+  });
+
+  it('maps gRPC status to HTTP status with the error envelope', async () => {
+    const response = await api('/api/driver_id?driver_id=9999');
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: { code: 'NOT_FOUND', detail: 'driver 9999 not found' } });
+  });
+
+  it('rejects malformed JSON bodies', async () => {
+    const response = await api('/api/ic/delete', { method: 'POST', body: '{' });
+    expect(response.status).toBe(400);
+  });
+
+  it('registers a card and removes it from the non-registered list', async () => {
+    const response = await post('/api/ic/register_direct', { ic_id: 'aa23456789abcdef', driver_id: 1003 });
+    expect(await response.json()).toMatchObject({ success: true, driver_name: '鈴木 一郎' });
+
+    const items = await (await api('/api/ic_non_reg')).json() as Array<{ id: string }>;
+    expect(items.map((i) => i.id)).not.toContain('aa23456789abcdef');
+  });
+
+  it('forwards the signed user to the backend', async () => {
+    let token: string | null = null;
+    const fetchToBackend = globalThis.fetch;
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+      token = new Request(input, init).headers.get('x-timecard-user');
+      return fetchToBackend(input, init);
+    });
+
+    await post('/api/ic/delete', { ic_id: '0123456789abcdef' });
+    const { payload } = await jose.jwtVerify(token!, new TextEncoder().encode(env.GRPC_USER_SECRET));
+    expect(payload.sub).toBe(TEST_USER.sub);
+  });
+
+  it('streams IC logs as NDJSON', async () => {
+    const response = await api('/api/ic_log/stream');
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+    const lines = (await response.text()).trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines[0]).toHaveProperty('ic_id');
+  });
+
+  it('streams photo rows newest first across GetTmp pages', async () => {
+    const response = await api('/api/pic_tmp/stream?limit=40');
+    const lines = (await response.text()).trim().split('\n').map((line) => JSON.parse(line) as { date: string; pic_url_1: string });
+    expect(lines).toHaveLength(backend.state.picTmp.length);
+    expect(lines.map((line) => line.date)).toEqual(backend.state.picTmp.map((row) => row.date).reverse());
+    expect(lines[0].pic_url_1).toMatch(/^\/api\/pic\//);
+
+    // 返した写真はキャッシュから取得できる（バックエンド停止中でも）
+    const oldest = lines.at(-1)!;
+    backend.failures.add({ method: '*', grpc_status: Code.Unavailable });
+    expect((await api(oldest.pic_url_1)).status).toBe(200);
+  });
+
+  it('requires a limit and a valid start for the photo stream', async () => {
+    expect((await api('/api/pic_tmp/stream')).status).toBe(400);
+    expect((await api('/api/pic_tmp/stream?limit=0')).status).toBe(400);
+    expect((await api('/api/pic_tmp/stream?limit=5&start=yesterday')).status).toBe(400);
+  });
+
+  it('reports errors after the first row as a final NDJSON line', async () => {
+    // GetWithDriver を1週間ごとに呼ぶので、2区間目の呼び出しを失敗させる
+    const start = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+    const end = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString();
+    const response = await api(`/api/ic_log/stream?start=${start}&end=${end}`);
+    backend.failures.add({ method: 'timecard.ICLogService/GetWithDriver', grpc_status: Code.Internal, times: 1 });
+
+    const lines = (await response.text()).trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(backend.state.icLogs.length + 1);
+    expect(lines.slice(0, -1).map((line) => line.datetime)).toEqual(backend.state.icLogs.map((log) => log.date));
+    expect(lines.at(-1)).toMatchObject({ error: { code: 'INTERNAL' } });
+  });
+
+  it('serves the last good response with stale: true while the backend is down', async () => {
+    const fresh = await (await api('/api/ic_log_list?limit=5')).json();
+
+    backend.failures.add({ method: '*', http_status: 503 });
+    const response = await api('/api/ic_log_list?limit=5');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ stale: true, data: fresh, error: { code: 'UNAVAILABLE' } });
+
+    const uncached = await api('/api/ic_log_list?limit=6');
+    expect(uncached.status).toBe(503);
+  });
+
+  it('does not rewrite the stale copy on every successful read', async () => {
+    const first = await (await api('/api/ic_log_list?limit=3')).json();
+
+    // 直後の読み取りは新しい打刻があっても控えを上書きしない
+    backend.state.icLogs.push({ id: '0123456789abcdef', type: 'ic', date: new Date().toISOString(), iid: '1001', machineIp: '192.168.1.101' });
+    const second = await (await api('/api/ic_log_list?limit=3')).json();
+    expect(second).not.toEqual(first);
+
+    backend.failures.add({ method: '*', http_status: 503 });
+    expect(await (await api('/api/ic_log_list?limit=3')).json()).toMatchObject({ stale: true, data: first });
+  });
+
+  it('returns fingerprint logs with driver names', async () => {
+    const logs = await (await api('/api/finger_log')).json() as Array<Record<string, unknown>>;
+    expect(logs).toContainEqual(expect.objectContaining({ id: 1001, driver_name: '山田 太郎', message: 'finger matched' }));
+
+    const future = new Date(Date.now() + 60_000).toISOString();
+    expect(await (await api(`/api/finger_log?start=${future}`)).json()).toEqual([]);
+    expect((await api('/api/finger_log?start=yesterday')).status).toBe(400);
+  });
+
+  it('parses temperature sensor CSV into numbers', async () => {
+    const rows = await (await api('/api/tmp_data?limit=5&driver_id=1002')).json() as Array<Record<string, unknown>>;
+    expect(rows.length).toBeGreaterThan(0);
+    for (const row of rows) {
+      expect(row).toMatchObject({ driver_id: 1002, driver_name: '佐藤 花子' });
+      expect((row.tmp as number[]).every((v) => typeof v === 'number')).toBe(true);
+      expect(row.max_tmp).toBe(Math.max(...(row.tmp as number[])));
+    }
+
+    const withoutPic = await (await api('/api/tmp_data/without_pic')).json() as Array<{ driver_id: number }>;
+    expect(withoutPic.length).toBeGreaterThan(0);
+    expect(withoutPic.every((r) => r.driver_id === 1004)).toBe(true);
+
+    expect((await api('/api/tmp_data?limit=abc')).status).toBe(400);
+  });
+
+  it('pages driver-filtered temperature data without short pages', async () => {
+    const expected = backend.state.tmpData.filter((row) => row.id === 1002).map((row) => row.date).reverse();
+    expect(expected.length).toBeGreaterThan(2);
+
+    const dates: string[] = [];
+    let offset: string | null = '0';
+    while (offset !== null) {
+      const response = await api(`/api/tmp_data?limit=2&driver_id=1002&offset=${offset}`);
+      const rows = await response.json() as Array<{ date: string; driver_id: number }>;
+      offset = response.headers.get('X-Next-Offset');
+      if (offset !== null) expect(rows).toHaveLength(2);
+      dates.push(...rows.map((row) => row.date));
+    }
+    expect(dates).toEqual(expected);
+    expect((await api('/api/tmp_data?limit=0')).status).toBe(400);
+  });
+
+  it('pages /api/pic_tmp backwards through a date range', async () => {
+    const start = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString();
+    const end = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const range = (to: string, offset: number) => api(`/api/pic_tmp?start=${start}&end=${to}&limit=5&offset=${offset}`);
+    const rowsOf = (response: Response) => response.json() as Promise<Array<{ date: string; machine_ip: string }>>;
+
+    const firstResponse = await range(end, 0);
+    const first = await rowsOf(firstResponse);
+    expect(first).toHaveLength(5);
+    expect(first.map((r) => r.date)).toEqual(first.map((r) => r.date).sort().reverse());
+    expect(firstResponse.headers.get('X-Next-Offset')).toBe('5');
+
+    const second = await rowsOf(await range(end, 5));
+    expect(second).toHaveLength(5);
+    expect(second.every((r) => r.date < first[4].date)).toBe(true);
+
+    // 過去の期間は end 以降の行を読み飛ばし、続きの offset は読み飛ばした分を含む
+    const pastResponse = await range(first[4].date, 0);
+    const past = await rowsOf(pastResponse);
+    expect(past).toEqual(second);
+    expect(pastResponse.headers.get('X-Next-Offset')).toBe('10');
+
+    const last = await range(end, 20);
+    expect(await rowsOf(last)).toHaveLength(1);
+    expect(last.headers.has('X-Next-Offset')).toBe(false);
+
+    expect((await api(`/api/pic_tmp?end=${end}`)).status).toBe(400);
+    expect((await api('/api/pic_tmp?start=yesterday&end=today')).status).toBe(400);
+    expect((await api(`/api/pic_tmp?start=${start}&end=${end}&offset=-1`)).status).toBe(400);
+  });
+
+  it('skips rows after the end of a past range without reading them page by page', async () => {
+    const start = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString();
+    const end = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const expected = await (await api(`/api/pic_tmp?start=${start}&end=${end}&limit=5`)).json();
+
+    // end より後に300件
+    const template = backend.state.picTmp[0];
+    for (let i = 0; i < 300; i++) {
+      backend.state.picTmp.push({ ...template, date: new Date(Date.now() + (2 + i) * 60 * 60 * 1000).toISOString() });
+    }
+    const calls = vi.spyOn(backend, 'fetch');
+    const response = await api(`/api/pic_tmp?start=${start}&end=${end}&limit=5`);
+    expect(await response.json()).toEqual(expected);
+    expect(response.headers.get('X-Next-Offset')).toBe('305');
+    expect(calls.mock.calls.length).toBeLessThan(25);
+  });
+
+  it('serves photos as cacheable bytes referenced from /api/pic_tmp', async () => {
+    const [row] = await (await api('/api/pic_tmp?limit=1')).json() as Array<Record<string, string>>;
+    expect(row).not.toHaveProperty('pic_data_1');
+    expect(row.pic_url_1).toBe(`/api/pic/${encodeURIComponent(row.date)}/${row.machine_ip}/1`);
+
+    const response = await api(row.pic_url_1);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(response.headers.get('Cache-Control')).toContain('immutable');
+    expect(new Uint8Array(await response.arrayBuffer()).slice(1, 4)).toEqual(new TextEncoder().encode('PNG'));
+
+    const revalidated = await api(row.pic_url_1, { headers: { 'If-None-Match': response.headers.get('ETag')! } });
+    expect(revalidated.status).toBe(304);
+
+    const missing = await api(`/api/pic/${encodeURIComponent(row.date)}/10.0.0.1/1`);
+    expect(missing.status).toBe(404);
+  });
+
+  it('finds photos that were not listed first from the oldest end of GetTmp', async () => {
+    // GetTmp は date 以降を新しい順に返すので、最も古い記録は一覧の末尾にある
+    const oldest = backend.state.picTmp[0];
+    const response = await api(`/api/pic/${encodeURIComponent(oldest.date)}/${oldest.machineIp}/1`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+  });
+
+  it('resizes photos into cached JPEG thumbnails', async () => {
+    const [row] = await (await api('/api/pic_tmp?limit=1')).json() as Array<Record<string, string>>;
+
+    const thumbnail = await api(`${row.pic_url_2}?size=100`);
+    expect(thumbnail.status).toBe(200);
+    expect(thumbnail.headers.get('Content-Type')).toBe('image/jpeg');
+    expect(new Uint8Array(await thumbnail.arrayBuffer()).slice(0, 2)).toEqual(new Uint8Array([0xff, 0xd8]));
+
+    // 2回目はエッジキャッシュから返す（バックエンド停止中でも取得できる）
+    backend.failures.add({ method: '*', grpc_status: Code.Unavailable });
+    expect((await api(`${row.pic_url_2}?size=100`)).status).toBe(200);
+
+    expect((await api(`${row.pic_url_2}?size=150`)).status).toBe(400);
+  });
+
+  it('lists IC touches with driver names and camera captures', async () => {
+    const rows = await (await api('/api/pic_ic?limit=8')).json() as Array<Record<string, string | number | null>>;
+    expect(rows).toHaveLength(8);
+    expect(rows[0]).not.toHaveProperty('pic_data');
+    expect(rows).toContainEqual(expect.objectContaining({ driver_id: 1003, driver_name: '鈴木 一郎', ic_id: '2123456789abcdef' }));
+
+    const picture = await api(rows[0].pic_url as string);
+    expect(picture.status).toBe(200);
+    expect(picture.headers.get('Content-Type')).toBe('image/png');
+
+    const filtered = await (await api('/api/pic_ic?limit=8&driver_id=1001')).json() as Array<{ driver_id: number }>;
+    expect(filtered.length).toBeGreaterThan(0);
+    expect(filtered.every((r) => r.driver_id === 1001)).toBe(true);
+  });
+
+  it('filters /api/pic_ic by driver before paging', async () => {
+    const page = (offset: string) => api(`/api/pic_ic?limit=2&driver_id=1001&offset=${offset}`);
+    const first = await page('0');
+    const firstRows = await first.json() as Array<{ driver_id: number; date: string }>;
+    expect(firstRows).toHaveLength(2);
+    expect(firstRows.every((r) => r.driver_id === 1001)).toBe(true);
+
+    const second = await page(first.headers.get('X-Next-Offset')!);
+    const secondRows = await second.json() as Array<{ driver_id: number; date: string }>;
+    expect(secondRows).toHaveLength(2);
+    expect(secondRows.every((r) => r.driver_id === 1001 && r.date < firstRows[1].date)).toBe(true);
+
+    // 1001 の打刻は5件
+    const last = await page(second.headers.get('X-Next-Offset')!);
+    expect(await last.json()).toHaveLength(1);
+    expect(last.headers.has('X-Next-Offset')).toBe(false);
+
+    // 一覧に出していない古い写真も GetIC の末尾から探す
+    const oldest = backend.state.picIc[0];
+    expect((await api(`/api/pic/${encodeURIComponent(oldest.date)}/${oldest.machineIp}/ic`)).status).toBe(200);
+  });
+
+  it('filters IC logs by date range, driver and terminal', async () => {
+    const start = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const end = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const logs = await (await api(`/api/ic_log?start=${start}&end=${end}`)).json() as Array<{ datetime: string; driver_id: number; driver_name: string; machine_ip: string }>;
+    expect(logs.length).toBeGreaterThan(0);
+    expect(logs.every((log) => log.datetime >= start)).toBe(true);
+    expect(logs).toContainEqual(expect.objectContaining({ driver_id: 1002, driver_name: '佐藤 花子' }));
+
+    const filtered = await (await api(`/api/ic_log?start=${start}&driver_id=1001&machine_ip=192.168.1.102`)).json() as typeof logs;
+    expect(filtered.length).toBeGreaterThan(0);
+    expect(filtered.every((log) => log.driver_id === 1001 && log.machine_ip === '192.168.1.102')).toBe(true);
+
+    expect((await api('/api/ic_log?start=yesterday')).status).toBe(400);
+  });
+
+  it('lists IC touches without a temperature check', async () => {
+    const logs = await (await api('/api/ic_log/without_tmp')).json() as Array<Record<string, unknown>>;
+    expect(logs).toEqual([expect.objectContaining({ driver_id: 1001, driver_name: '山田 太郎', machine_ip: '192.168.1.102' })]);
+  });
+
+  it('pages driver-filtered IC touches without a temperature check', async () => {
+    // 他のドライバーのタッチの間に 1001 のタッチがある
+    for (let i = 0; i < 6; i++) {
+      const date = new Date(Date.now() + (i + 1) * 60 * 1000).toISOString();
+      backend.state.icLogs.push({ id: `ic-${i}`, type: 'ic', date, iid: i % 3 === 0 ? '1001' : '1002', machineIp: '192.168.1.103' });
+    }
+
+    const first = await api('/api/ic_log/without_tmp?driver_id=1001&limit=2');
+    expect((await first.json() as Array<{ ic_id: string }>).map((log) => log.ic_id)).toEqual(['ic-3', 'ic-0']);
+    const offset = first.headers.get('X-Next-Offset');
+    expect(offset).toBe('6');
+
+    const second = await api(`/api/ic_log/without_tmp?driver_id=1001&limit=2&offset=${offset}`);
+    expect(await second.json()).toEqual([expect.objectContaining({ driver_id: 1001, machine_ip: '192.168.1.102' })]);
+    expect(second.headers.has('X-Next-Offset')).toBe(false);
+  });
+
+  it('builds the monthly attendance report from IC logs', async () => {
+    const month = new Date(Date.now() + 7 * 60 * 60 * 1000).toISOString().slice(0, 7); // 2時間前（日本時間）の月
+    const report = await (await api(`/api/reports/attendance?month=${month}`)).json() as {
+      month: string;
+      drivers: Array<{ driver_id: number; driver_name: string; shifts: Array<{ worked_minutes: number | null }> }>;
+    };
+    expect(report.month).toBe(month);
+    const taro = report.drivers.find((d) => d.driver_id === 1001)!;
+    expect(taro.driver_name).toBe('山田 太郎');
+    expect(taro.shifts.at(-1)!.worked_minutes).toBe(72);
+
+    expect((await api('/api/reports/attendance?month=2025-13')).status).toBe(400);
+  });
+
+  it('exports IC logs as CSV in UTF-8 with BOM or Shift_JIS', async () => {
+    const response = await api('/api/export/ic_log.csv?driver_id=1002');
+    expect(response.headers.get('Content-Disposition')).toContain('attachment');
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    expect(Array.from(bytes.slice(0, 3))).toEqual([0xef, 0xbb, 0xbf]);
+    const lines = new TextDecoder().decode(bytes).trim().split('\r\n');
+    expect(lines[0]).toBe('日時,ドライバーID,氏名,カードID,端末,種別');
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.slice(1).every((line) => line.includes(',1002,佐藤 花子,'))).toBe(true);
+
+    const sjis = new Uint8Array(await (await api('/api/export/ic_log.csv?encoding=sjis')).arrayBuffer());
+    expect(Array.from(sjis.slice(0, 4))).toEqual([0x93, 0xfa, 0x8e, 0x9e]); // 日時
+
+    expect((await api('/api/export/ic_log.csv?encoding=euc')).status).toBe(400);
+
+    // ファイル名は日本時間の日付（2025-01-15 00:00 JST = 2025-01-14T15:00Z）
+    const named = await api('/api/export/ic_log.csv?start=2025-01-14T15:00:00.000Z&end=2025-01-15T15:00:00.000Z');
+    expect(named.headers.get('Content-Disposition')).toContain('filename="ic_log_20250115-20250116.csv"');
+  });
+
+  it('exports IC logs as an Excel workbook', async () => {
+    const response = await api('/api/export/ic_log.xlsx?machine_ip=192.168.1.101');
+    expect(response.headers.get('Content-Type')).toContain('spreadsheetml');
+    const files = unzipSync(new Uint8Array(await response.arrayBuffer()));
+    expect(Object.keys(files)).toContain('xl/workbook.xml');
+    const sheet = strFromU8(files['xl/worksheets/sheet1.xml']);
+    expect(sheet).toContain('192.168.1.101');
+    expect(sheet).not.toContain('192.168.1.102');
+    expect(sheet.endsWith('</sheetData></worksheet>')).toBe(true);
+  });
+
+  it('flags fever readings on /api/pic_tmp and lists today\'s alerts', async () => {
+    const rows = await (await api('/api/pic_tmp?limit=5')).json() as Array<{ name: string; max_tmp: number; fever: boolean }>;
+    expect(rows.find((r) => r.fever)).toMatchObject({ name: '田中 三郎' });
+    expect(rows.filter((r) => !r.fever).every((r) => r.max_tmp < 37.5)).toBe(true);
+
+    const body = await (await api('/api/alerts/temperature')).json() as { threshold: number; alerts: unknown[] };
+    expect(body.threshold).toBe(37.5);
+    expect(body.alerts).toEqual([expect.objectContaining({ driver_id: 1005, driver_name: '田中 三郎' })]);
+  });
+
+  it('returns the error envelope for unknown routes', async () => {
+    const response = await api('/api/pic/20240115/192.168.1.101/3');
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: { code: 'NOT_FOUND' } });
+  });
+
+  it('denies routes without a permission rule', async () => {
+    const response = await api('/api/unknown');
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: { code: 'PERMISSION_DENIED' } });
+    expect((await api('/api/drivers', { method: 'DELETE' })).status).toBe(403);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { buildAttendanceReport, fetchRangeJst, monthRangeJst } from '../src/reports/attendance';
+import type { IcLogDetailRow } from '../src/grpc-client';
+
+// 日本時間の "2025-03-01 08:00" → ICログ
+function touch(driverId: number, jst: string, machineIp = '192.168.1.101', type = 'ic'): IcLogDetailRow {
+  return {
+    id: `card-${driverId}`,
+    ic_id: `card-${driverId}`,
+    driver_id: driverId,
+    datetime: new Date(jst.replace(' ', 'T') + ':00+09:00').toISOString(),
+    type,
+    detail: 'ic read',
+    machine_ip: machineIp,
+    driver_name: undefined,
+  };
+}
+
+describe('buildAttendanceReport', () => {
+  it('uses Japan time month boundaries', () => {
+    expect(monthRangeJst('2025-03')).toEqual({ start: '2025-02-28T15:00:00.000Z', end: '2025-03-31T15:00:00.000Z' });
+    expect(monthRangeJst('2025-12').end).toBe('2025-12-31T15:00:00.000Z');
+    expect(fetchRangeJst('2025-03').start < monthRangeJst('2025-03').start).toBe(true);
+  });
+
+  it('pairs touches into shifts and totals worked minutes per driver', () => {
+    const report = buildAttendanceReport('2025-03', [
+      touch(1002, '2025-03-03 17:30'),
+      touch(1002, '2025-03-03 08:00'),
+      touch(1002, '2025-03-03 08:02'), // 読み取りの重複
+      touch(1002, '2025-03-04 09:00'),
+      touch(1002, '2025-03-04 18:15'),
+      touch(1001, '2025-03-05 07:00'),
+    ], new Map([[1001, '山田 太郎'], [1002, '佐藤 花子']]));
+
+    expect(report.drivers.map((d) => d.driver_id)).toEqual([1001, 1002]);
+    const hanako = report.drivers[1];
+    expect(hanako).toMatchObject({ driver_name: '佐藤 花子', days_worked: 2, total_minutes: 570 + 555, missing_clock_out: 0 });
+    expect(hanako.shifts[0]).toMatchObject({ date: '2025-03-03', worked_minutes: 570, overnight: false });
+
+    expect(report.drivers[0]).toMatchObject({ driver_name: '山田 太郎', missing_clock_out: 1 });
+    expect(report.drivers[0].shifts[0]).toMatchObject({ clock_out: null, worked_minutes: null });
+  });
+
+  it('counts overnight shifts on the clock-in day, including across month ends', () => {
+    const report = buildAttendanceReport('2025-03', [
+      touch(1003, '2025-02-28 22:00'),
+      touch(1003, '2025-03-01 06:00'), // 前月の勤務の退勤
+      touch(1003, '2025-03-10 21:00'),
+      touch(1003, '2025-03-11 05:30'),
+      touch(1003, '2025-03-31 22:00'),
+      touch(1003, '2025-04-01 07:00'),
+    ]);
+
+    const shifts = report.drivers[0].shifts;
+    expect(shifts.map((s) => s.date)).toEqual(['2025-03-10', '2025-03-31']);
+    expect(shifts[0]).toMatchObject({ overnight: true, worked_minutes: 510 });
+    expect(shifts[1]).toMatchObject({ overnight: true, worked_minutes: 540 });
+  });
+
+  it('starts a new shift when the previous one has no clock-out', () => {
+    const report = buildAttendanceReport('2025-03', [
+      touch(1004, '2025-03-03 08:00'),
+      touch(1004, '2025-03-04 08:00'),
+      touch(1004, '2025-03-04 17:00'),
+    ]);
+
+    expect(report.drivers[0].shifts).toEqual([
+      expect.objectContaining({ date: '2025-03-03', clock_out: null }),
+      expect.objectContaining({ date: '2025-03-04', worked_minutes: 540 }),
+    ]);
+  });
+
+  it('pairs touches by their in/out type and keeps a missing clock-in from shifting later pairs', () => {
+    const clockIn = (jst: string) => touch(1005, jst, '192.168.1.101', 'in');
+    const clockOut = (jst: string) => touch(1005, jst, '192.168.1.101', 'out');
+    const report = buildAttendanceReport('2025-03', [
+      clockIn('2025-03-03 08:00'),
+      clockOut('2025-03-03 17:00'),
+      clockOut('2025-03-04 17:30'), // 出勤のタッチ漏れ
+      clockIn('2025-03-05 08:00'),
+      clockOut('2025-03-05 17:00'),
+      clockIn('2025-03-06 08:00'),
+      clockIn('2025-03-07 08:00'), // 前日は退勤のタッチ漏れ
+      clockOut('2025-03-07 16:00'),
+    ]);
+
+    const driver = report.drivers[0];
+    expect(driver.shifts).toEqual([
+      expect.objectContaining({ date: '2025-03-03', worked_minutes: 540 }),
+      expect.objectContaining({ date: '2025-03-04', clock_in: null, worked_minutes: null, overnight: false }),
+      expect.objectContaining({ date: '2025-03-05', worked_minutes: 540, overnight: false }),
+      expect.objectContaining({ date: '2025-03-06', clock_out: null }),
+      expect.objectContaining({ date: '2025-03-07', worked_minutes: 480 }),
+    ]);
+    expect(driver).toMatchObject({ total_minutes: 540 * 2 + 480, missing_clock_in: 1, missing_clock_out: 1, days_worked: 5 });
+  });
+});
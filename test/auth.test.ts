@@ -0,0 +1,200 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import * as jose from 'jose';
+import {
+  createBackendUserToken,
+  createSessionCookie,
+  createTempToken,
+  refreshSessionCookie,
+  verifySessionCookie,
+  verifyTempToken,
+} from '../src/auth';
+import { isEmailAllowed } from '../src/auth/types';
+import { isPublicPath } from '../src/auth/middleware';
+import { clearRoleConfigCache, getApiPermission, getPagePermission, resolveRole, type RoleConfig } from '../src/auth/roles';
+import { TEST_USER } from './helpers';
+
+describe('isEmailAllowed', () => {
+  it('matches exact addresses case-insensitively', () => {
+    expect(isEmailAllowed('Tester@Example.com', 'tester@example.com, other@example.com')).toBe(true);
+    expect(isEmailAllowed('nobody@example.com', 'tester@example.com')).toBe(false);
+  });
+
+  it('treats entries starting with @ as domain filters', () => {
+    expect(isEmailAllowed('driver@ohishi.co.jp', '@ohishi.co.jp')).toBe(true);
+    expect(isEmailAllowed('driver@evil-ohishi.co.jp.example', '@ohishi.co.jp')).toBe(false);
+  });
+});
+
+describe('isPublicPath', () => {
+  it('allows login and static assets without authentication', () => {
+    expect(isPublicPath('/login')).toBe(true);
+    expect(isPublicPath('/sw.js')).toBe(true);
+    expect(isPublicPath('/drivers')).toBe(false);
+    expect(isPublicPath('/api/drivers')).toBe(false);
+  });
+});
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+// 発行時刻などを指定してセッションJWTを作る（秒は現在からの相対値）
+async function signSession(claims: { iat: number; exp: number; auth_time?: number; kiosk?: boolean }): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const { iat, exp, auth_time, kiosk } = claims;
+  const jwt = await new jose.SignJWT({
+    ...TEST_USER,
+    ...(auth_time !== undefined ? { auth_time: now + auth_time } : {}),
+    ...(kiosk ? { kiosk } : {}),
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt(now + iat)
+    .setExpirationTime(now + exp)
+    .sign(new TextEncoder().encode(env.JWT_SECRET));
+  return `tc_session=${jwt}`;
+}
+
+function withCookie(cookie: string): Request {
+  return new Request('https://timecard.test/', { headers: { Cookie: cookie } });
+}
+
+function maxAge(setCookie: string): number {
+  return parseInt(setCookie.match(/Max-Age=(\d+)/)![1]);
+}
+
+describe('session cookie', () => {
+  it('round-trips the user through a signed cookie', async () => {
+    const setCookie = await createSessionCookie(TEST_USER, env);
+    expect(setCookie).toMatch(/^tc_session=[^;]+; Path=\/; HttpOnly; Secure; SameSite=Lax; Max-Age=\d+$/);
+
+    const request = new Request('https://timecard.test/', { headers: { Cookie: setCookie.split(';')[0] } });
+    const user = await verifySessionCookie(request, env);
+    expect(user).toMatchObject(TEST_USER);
+  });
+
+  it('rejects cookies signed with another secret', async () => {
+    const setCookie = await createSessionCookie(TEST_USER, { ...env, JWT_SECRET: 'other-secret' });
+    const request = new Request('https://timecard.test/', { headers: { Cookie: setCookie.split(';')[0] } });
+    expect(await verifySessionCookie(request, env)).toBeNull();
+  });
+
+  it('returns null without a cookie', async () => {
+    expect(await verifySessionCookie(new Request('https://timecard.test/'), env)).toBeNull();
+  });
+
+  it('rejects expired cookies', async () => {
+    const cookie = await signSession({ iat: -25 * HOUR, exp: -HOUR, auth_time: -25 * HOUR });
+    expect(await verifySessionCookie(withCookie(cookie), env)).toBeNull();
+  });
+
+  it('rejects cookies past the absolute maximum lifetime even when not expired', async () => {
+    const cookie = await signSession({ iat: -HOUR, exp: 23 * HOUR, auth_time: -8 * DAY });
+    expect(await verifySessionCookie(withCookie(cookie), env)).toBeNull();
+    // auth_time のない古いCookieは iat で判定する
+    const legacy = await signSession({ iat: -HOUR, exp: 23 * HOUR });
+    expect(await verifySessionCookie(withCookie(legacy), env)).toMatchObject(TEST_USER);
+  });
+
+  it('issues long-lived kiosk sessions unless disabled', async () => {
+    expect(maxAge(await createSessionCookie(TEST_USER, env, { kiosk: true }))).toBe(30 * DAY);
+    expect(maxAge(await createSessionCookie(TEST_USER, { ...env, KIOSK_SESSION_DAYS: '0' }, { kiosk: true }))).toBe(DAY);
+
+    const setCookie = await createSessionCookie(TEST_USER, env, { kiosk: true });
+    const user = await verifySessionCookie(withCookie(setCookie.split(';')[0]), env);
+    expect(user).toMatchObject({ kiosk: true });
+  });
+});
+
+describe('session refresh', () => {
+  it('does not refresh before half-life', async () => {
+    const user = await verifySessionCookie(withCookie(await signSession({ iat: -HOUR, exp: 23 * HOUR, auth_time: -HOUR })), env);
+    expect(await refreshSessionCookie(user!, env)).toBeNull();
+  });
+
+  it('reissues the cookie past half-life, keeping the original login time', async () => {
+    const user = await verifySessionCookie(withCookie(await signSession({ iat: -13 * HOUR, exp: 11 * HOUR, auth_time: -3 * DAY })), env);
+    const setCookie = await refreshSessionCookie(user!, env);
+    expect(maxAge(setCookie!)).toBe(DAY);
+
+    const refreshed = await verifySessionCookie(withCookie(setCookie!.split(';')[0]), env);
+    expect(refreshed!.auth_time).toBe(user!.auth_time);
+    expect(refreshed!.exp - refreshed!.iat).toBe(DAY);
+  });
+
+  it('never extends past the absolute maximum lifetime', async () => {
+    const user = await verifySessionCookie(withCookie(await signSession({ iat: -13 * HOUR, exp: HOUR, auth_time: -(7 * DAY - 2 * HOUR) })), env);
+    const setCookie = await refreshSessionCookie(user!, env);
+    expect(maxAge(setCookie!)).toBeLessThanOrEqual(2 * HOUR);
+
+    const capped = await verifySessionCookie(withCookie(setCookie!.split(';')[0]), env);
+    expect(await refreshSessionCookie(capped!, env)).toBeNull();
+  });
+
+  it('slides kiosk sessions by the kiosk duration', async () => {
+    const user = await verifySessionCookie(withCookie(await signSession({ iat: -20 * DAY, exp: 10 * DAY, auth_time: -20 * DAY, kiosk: true })), env);
+    expect(maxAge((await refreshSessionCookie(user!, env))!)).toBe(30 * DAY);
+  });
+});
+
+describe('temp token', () => {
+  it('is only accepted as a temp token', async () => {
+    const token = await createTempToken(TEST_USER, env);
+    expect(await verifyTempToken(token, env)).toEqual(TEST_USER);
+
+    const sessionJwt = (await createSessionCookie(TEST_USER, env)).split(';')[0].split('=')[1];
+    expect(await verifyTempToken(sessionJwt, env)).toBeNull();
+  });
+});
+
+describe('backend user token', () => {
+  it('carries sub/email/provider signed with GRPC_USER_SECRET', async () => {
+    const token = await createBackendUserToken(TEST_USER, 'shared-secret');
+    const { payload } = await jose.jwtVerify(token, new TextEncoder().encode('shared-secret'), {
+      issuer: 'timecard-cf-worker',
+      audience: 'timecard-backend',
+    });
+    expect(payload).toMatchObject({ sub: TEST_USER.sub, email: TEST_USER.email, provider: TEST_USER.provider });
+  });
+});
+
+describe('roles', () => {
+  async function roleFor(email: string, config: RoleConfig | null): Promise<string> {
+    if (config) {
+      await env.AUTH_KV!.put('roles', JSON.stringify(config));
+    } else {
+      await env.AUTH_KV!.delete('roles');
+    }
+    clearRoleConfigCache();
+    const role = await resolveRole({ ...TEST_USER, email, iat: 0, exp: 0 }, new Request('https://timecard.test/'), env);
+    await env.AUTH_KV!.delete('roles');
+    clearRoleConfigCache();
+    return role;
+  }
+
+  it('gives everyone the viewer role until roles are configured', async () => {
+    expect(await roleFor('anyone@example.com', null)).toBe('viewer');
+  });
+
+  it('prefers an exact email over domain entries and falls back to the default', async () => {
+    const config: RoleConfig = {
+      default: 'driver',
+      emails: { '@ohishi.co.jp': 'office', 'Part-Timer@ohishi.co.jp': 'viewer', 'boss@ohishi.co.jp': 'admin' },
+    };
+    expect(await roleFor('clerk@ohishi.co.jp', config)).toBe('office');
+    expect(await roleFor('part-timer@ohishi.co.jp', config)).toBe('viewer');
+    expect(await roleFor('boss@ohishi.co.jp', config)).toBe('admin');
+    expect(await roleFor('someone@gmail.com', config)).toBe('driver');
+  });
+
+  it('maps pages and API routes to permissions', () => {
+    expect(getPagePermission('/ic-non-reg.html')).toBe('write:ic_registration');
+    expect(getPagePermission('/')).toBe('read:ic_log');
+    expect(getPagePermission('/styles.css')).toBeUndefined();
+    expect(getApiPermission('POST', '/api/ic/delete')).toBe('write:ic_registration');
+    expect(getApiPermission('GET', '/api/pic/2025-01-01/192.168.1.1/1')).toBe('read:photos');
+    expect(getApiPermission('DELETE', '/api/sessions/abc')).toBe('admin:sessions');
+    expect(getApiPermission('GET', '/api/tmp_data/without_pic')).toBe('read:photos');
+    expect(getApiPermission('GET', '/api/version')).toBeNull();
+    expect(getApiPermission('GET', '/api/unknown')).toBeUndefined();
+  });
+});
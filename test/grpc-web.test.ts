@@ -0,0 +1,143 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  FRAME_FLAG_MESSAGE,
+  FRAME_FLAG_TRAILER,
+  GrpcWebFrameParser,
+  GrpcWebTextDecoder,
+  encodeBase64,
+  encodeFrame,
+  parseTrailer,
+  readFrames,
+  type GrpcWebFormat,
+} from '../src/grpc-web-frames';
+import { GrpcWebClient } from '../src/grpc-client';
+import { Code, GrpcError } from '../src/grpc-error';
+import { installMockBackend } from './helpers';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+function streamOf(chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>, format: GrpcWebFormat) {
+  const frames = [];
+  for await (const frame of readFrames(body, format)) {
+    frames.push({ flag: frame.flag, data: Array.from(frame.data) });
+  }
+  return frames;
+}
+
+describe('grpc-web framing', () => {
+  it('encodes a 5-byte header with big-endian length', () => {
+    expect(Array.from(encodeFrame(FRAME_FLAG_TRAILER, bytes(1, 2, 3)))).toEqual([0x80, 0, 0, 0, 3, 1, 2, 3]);
+  });
+
+  it('parses frames split across arbitrary chunks', () => {
+    const body = new Uint8Array([...encodeFrame(FRAME_FLAG_MESSAGE, bytes(1, 2, 3)), ...encodeFrame(FRAME_FLAG_TRAILER, bytes(4))]);
+    const parser = new GrpcWebFrameParser();
+    const frames = [];
+    for (let i = 0; i < body.length; i++) {
+      frames.push(...parser.push(body.subarray(i, i + 1)));
+    }
+    parser.flush();
+    expect(frames.map((f) => [f.flag, Array.from(f.data)])).toEqual([[0, [1, 2, 3]], [0x80, [4]]]);
+  });
+
+  it('rejects truncated frames', () => {
+    const parser = new GrpcWebFrameParser();
+    parser.push(encodeFrame(FRAME_FLAG_MESSAGE, bytes(1, 2, 3)).subarray(0, 6));
+    expect(() => parser.flush()).toThrow(/trailing bytes/);
+  });
+
+  it('decodes separately padded base64 frames in grpc-web-text', () => {
+    const message = encodeBase64(encodeFrame(FRAME_FLAG_MESSAGE, bytes(1, 2)));
+    const trailer = encodeBase64(encodeFrame(FRAME_FLAG_TRAILER, new TextEncoder().encode('grpc-status:0\r\n')));
+    expect(message).toContain('=');
+
+    const decoder = new GrpcWebTextDecoder();
+    const text = message + trailer;
+    const decoded = [...decoder.decode(text.slice(0, 7)), ...decoder.decode(text.slice(7))];
+    decoder.flush();
+    expect(decoded.slice(0, 7)).toEqual([0, 0, 0, 0, 2, 1, 2]);
+    expect(decoded[7]).toBe(FRAME_FLAG_TRAILER);
+  });
+
+  it('reads the same frames from text and binary bodies', async () => {
+    const frames = [encodeFrame(FRAME_FLAG_MESSAGE, bytes(9, 8)), encodeFrame(FRAME_FLAG_TRAILER, bytes(7))];
+    const text = frames.map(encodeBase64).join('');
+    const expected = [{ flag: 0, data: [9, 8] }, { flag: 0x80, data: [7] }];
+
+    expect(await collect(streamOf([text.slice(0, 3), text.slice(3, 10), text.slice(10)]), 'text')).toEqual(expected);
+    expect(await collect(streamOf(frames), 'binary')).toEqual(expected);
+  });
+
+  it('parses trailers into lower-cased headers', () => {
+    const trailer = parseTrailer(new TextEncoder().encode('Grpc-Status: 5\r\ngrpc-message: not%20found\r\n'));
+    expect(trailer.get('grpc-status')).toBe('5');
+    expect(trailer.get('grpc-message')).toBe('not%20found');
+  });
+});
+
+describe('GrpcWebClient over the mock backend', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  for (const format of ['text', 'binary'] as const) {
+    it(`calls RPCs and pages long ranges as an async iterator (${format})`, async () => {
+      const baseUrl = `http://grpc-${format}.test`;
+      installMockBackend(baseUrl);
+      const client = new GrpcWebClient(baseUrl, { format });
+
+      const drivers = await client.getDrivers();
+      expect(drivers).toContainEqual({ id: 1001, name: '山田 太郎' });
+
+      const rows = [];
+      for await (const row of client.streamIcLog()) {
+        rows.push(row);
+      }
+      expect(rows.length).toBeGreaterThan(1);
+      expect(rows[0]).toHaveProperty('ic_id');
+    });
+  }
+
+  it('surfaces trailer status as GrpcError', async () => {
+    installMockBackend(env.GRPC_API_URL);
+    const client = new GrpcWebClient(env.GRPC_API_URL);
+    const error = await client.getDriverById(9999).catch((e) => e);
+    expect(error).toBeInstanceOf(GrpcError);
+    expect(error.code).toBe(Code.NotFound);
+    expect(error.grpcMessage).toBe('driver 9999 not found');
+  });
+
+  it('retries side-effect-free reads on UNAVAILABLE only', async () => {
+    const baseUrl = 'http://grpc-retry.test';
+    const backend = installMockBackend(baseUrl);
+    const client = new GrpcWebClient(baseUrl, { retry: { maxAttempts: 3, initialBackoffMs: 1, maxBackoffMs: 1 } });
+
+    backend.failures.add({ method: 'timecard.DriverService/GetAll', grpc_status: Code.Unavailable, times: 2 });
+    expect(await client.getDrivers()).toHaveLength(5);
+
+    backend.failures.add({ method: 'timecard.ICNonRegService/Update', grpc_status: Code.Unavailable, times: 1 });
+    await expect(client.registerIc('aa23456789abcdef', 1001)).rejects.toMatchObject({ code: Code.Unavailable });
+    expect(backend.failures.list()).toEqual([]);
+  });
+
+  it('enforces the deadline', async () => {
+    const baseUrl = 'http://grpc-deadline.test';
+    const backend = installMockBackend(baseUrl);
+    backend.failures.add({ method: '*', delay_ms: 200 });
+    const client = new GrpcWebClient(baseUrl, { timeoutMs: 50, retry: { maxAttempts: 1 } });
+    await expect(client.getVersion()).rejects.toMatchObject({ code: Code.DeadlineExceeded });
+  });
+});
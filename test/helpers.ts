@@ -0,0 +1,39 @@
+// テスト共通: モックバックエンドへの差し替えとセッションCookie
+
+import { env } from 'cloudflare:test';
+import { vi } from 'vitest';
+import { createMockBackend, type MockBackend } from '../src/mock-backend';
+import { createSessionCookie, type SessionPayload } from '../src/auth';
+
+export const TEST_USER: Omit<SessionPayload, 'iat' | 'exp'> = {
+  sub: 'user-1',
+  email: 'tester@example.com',
+  name: 'テスト ユーザー',
+  provider: 'google',
+};
+
+// GRPC_API_URL 宛ての fetch をモックバックエンドで処理する
+// （サーキットブレーカーはURLごとのため、テストごとに別のURLを使える）
+export function installMockBackend(baseUrl: string = env.GRPC_API_URL): MockBackend {
+  const backend = createMockBackend();
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    if (!request.url.startsWith(baseUrl + '/')) {
+      return realFetch(request);
+    }
+    // 実際の fetch と同様に AbortSignal で中断できるようにする
+    return new Promise<Response>((resolve, reject) => {
+      const onAbort = () => reject(new DOMException('The operation was aborted', 'AbortError'));
+      if (request.signal.aborted) return onAbort();
+      request.signal.addEventListener('abort', onAbort, { once: true });
+      backend.fetch(request).then(resolve, reject);
+    });
+  });
+  return backend;
+}
+
+export async function sessionCookie(user = TEST_USER): Promise<string> {
+  const setCookie = await createSessionCookie(user, env);
+  return setCookie.split(';')[0];
+}
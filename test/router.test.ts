@@ -0,0 +1,384 @@
+import { createExecutionContext, env, runInDurableObject, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as jose from 'jose';
+import worker from '../src/index';
+import { clearRoleConfigCache, signBroadcast } from '../src/auth';
+import { TEST_USER, installMockBackend, sessionCookie } from './helpers';
+
+async function fetchWorker(path: string, init?: RequestInit): Promise<Response> {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(new Request(`https://timecard.test${path}`, init), env, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+async function withSession(init: RequestInit = {}): Promise<RequestInit> {
+  return { ...init, headers: { ...init.headers, Cookie: await sessionCookie() } };
+}
+
+// ロールの設定がなければ全員 viewer なので、テストのユーザーは admin にしておく
+beforeEach(async () => {
+  await env.AUTH_KV!.put('roles', JSON.stringify({ emails: { [TEST_USER.email]: 'admin' } }));
+  clearRoleConfigCache();
+});
+
+describe('router', () => {
+  beforeEach(() => {
+    installMockBackend();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('serves the login page without authentication', async () => {
+    const response = await fetchWorker('/login');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('text/html');
+  });
+
+  it('redirects unauthenticated page requests to /login', async () => {
+    const response = await fetchWorker('/drivers?x=1');
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('https://timecard.test/login?redirect=%2Fdrivers%3Fx%3D1');
+  });
+
+  it('answers CORS preflight requests', async () => {
+    const response = await fetchWorker('/api/drivers', { method: 'OPTIONS' });
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+
+  it('reports authentication state to scripts', async () => {
+    expect(await (await fetchWorker('/api/auth/check')).json()).toEqual({ authenticated: false });
+    expect(await (await fetchWorker('/api/auth/check', await withSession())).json()).toEqual({ authenticated: true });
+  });
+
+  it('serves pages to authenticated users', async () => {
+    for (const path of ['/', '/drivers', '/ic_non_reg', '/delete_ic', '/ic_log_list', '/clients', '/finger_log', '/photos', '/pic_ic', '/attendance', '/sessions', '/api_keys']) {
+      const response = await fetchWorker(path, await withSession());
+      expect(response.status, path).toBe(200);
+      expect(await response.text(), path).toContain('大石社タイムカード');
+    }
+  });
+
+  it('proxies /api/* to the backend with CORS headers', async () => {
+    const response = await fetchWorker('/api/version', await withSession());
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(await response.json()).toMatchObject({ git_commit: 'mock' });
+  });
+
+  it('refreshes sessions past half-life on page and API responses', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const jwt = await new jose.SignJWT({ ...TEST_USER, auth_time: now - 20 * 60 * 60 })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setJti(crypto.randomUUID())
+      .setIssuedAt(now - 20 * 60 * 60)
+      .setExpirationTime(now + 4 * 60 * 60)
+      .sign(new TextEncoder().encode(env.JWT_SECRET));
+
+    for (const path of ['/drivers', '/api/version']) {
+      const response = await fetchWorker(path, { headers: { Cookie: `tc_session=${jwt}` } });
+      expect(response.status, path).toBe(200);
+      expect(response.headers.get('Set-Cookie'), path).toMatch(/^tc_session=.+Max-Age=86400$/);
+    }
+
+    const fresh = await fetchWorker('/drivers', await withSession());
+    expect(fresh.headers.get('Set-Cookie')).toBeNull();
+  });
+
+  it('shows the keep-signed-in option on the login page', async () => {
+    expect(await (await fetchWorker('/login')).text()).toContain('kioskCheck');
+  });
+
+  it('clears the session on logout', async () => {
+    const response = await fetchWorker('/logout');
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Set-Cookie')).toContain('Max-Age=0');
+  });
+
+  it('accepts only signed, recent broadcasts from the backend', async () => {
+    const body = JSON.stringify({ status: 'tmp inserted', data: { name: '山田 太郎' } });
+    const post = (headers: Record<string, string>, payload = body) => fetchWorker('/api/broadcast', { method: 'POST', headers, body: payload });
+
+    const unsigned = await post({});
+    expect(unsigned.status).toBe(401);
+    expect(await unsigned.json()).toMatchObject({ error: { code: 'UNAUTHENTICATED' } });
+
+    expect((await post(await signBroadcast(body, 'wrong-secret'))).status).toBe(401);
+    expect((await post(await signBroadcast(body, env.BROADCAST_SECRET!), body.replace('山田', '佐藤'))).status).toBe(401);
+    const stale = await signBroadcast(body, env.BROADCAST_SECRET!, Math.floor(Date.now() / 1000) - 10 * 60);
+    expect((await post(stale)).status).toBe(401);
+
+    expect((await post(await signBroadcast(body, env.BROADCAST_SECRET!))).status).toBe(200);
+  });
+
+  it('relays fingerprint broadcasts that the finger log page reloads on', async () => {
+    const upgrade = await fetchWorker('/ws', await withSession({ headers: { Upgrade: 'websocket' } }));
+    expect(upgrade.status).toBe(101);
+    const ws = upgrade.webSocket!;
+    ws.accept();
+    const received = new Promise<string>((resolve) => {
+      ws.addEventListener('message', (event) => {
+        if (String(event.data).includes('tmp inserted by fing')) resolve(event.data as string);
+      });
+    });
+
+    const body = JSON.stringify({ type: 'hello', data: { status: 'tmp inserted by fing', ip: '192.168.1.101', data: { id: 1001 } } });
+    const response = await fetchWorker('/api/broadcast', { method: 'POST', headers: await signBroadcast(body, env.BROADCAST_SECRET!), body });
+    expect(response.status).toBe(200);
+    expect(JSON.parse(await received)).toMatchObject({ type: 'hello', data: { status: 'tmp inserted by fing' } });
+    ws.close(1000, 'done');
+
+    const page = await (await fetchWorker('/finger_log', await withSession())).text();
+    expect(page).toContain("data.status === 'tmp inserted by fing'");
+  });
+
+  it('rejects a session cookie after logout even if it is replayed', async () => {
+    const init = await withSession();
+    expect((await fetchWorker('/drivers', init)).status).toBe(200);
+
+    await fetchWorker('/logout', init);
+    expect((await fetchWorker('/drivers', init)).status).toBe(302);
+    // 別のセッションには影響しない
+    expect((await fetchWorker('/drivers', await withSession())).status).toBe(200);
+  });
+
+  it('logs out everywhere only on a same-origin POST', async () => {
+    // 他のテストのセッションを失効させないよう別のユーザーで確認する
+    const user = { ...TEST_USER, sub: 'logout-all-user' };
+    const init = { headers: { Cookie: await sessionCookie(user) } };
+    const other = { headers: { Cookie: await sessionCookie(user) } };
+    expect((await fetchWorker('/logout?all=1', init)).status).toBe(405);
+    expect((await fetchWorker('/logout?all=1', { ...init, method: 'POST' })).status).toBe(403);
+    const crossSite = { ...init, method: 'POST', headers: { ...init.headers, Origin: 'https://evil.test' } };
+    expect((await fetchWorker('/logout?all=1', crossSite)).status).toBe(403);
+    expect((await fetchWorker('/drivers', other)).status).toBe(200);
+
+    const sameOrigin = { ...init, method: 'POST', headers: { ...init.headers, Origin: 'https://timecard.test' } };
+    expect((await fetchWorker('/logout?all=1', sameOrigin)).status).toBe(302);
+    expect((await fetchWorker('/drivers', other)).status).toBe(302);
+  });
+
+  it('rechecks a valid session with the session store only after a short while', async () => {
+    const cookie = await sessionCookie({ ...TEST_USER, sub: 'cached-session-user' });
+    const { jti } = jose.decodeJwt(cookie.replace('tc_session=', ''));
+    expect((await fetchWorker('/drivers', { headers: { Cookie: cookie } })).status).toBe(200);
+
+    // 別の isolate で失効した場合
+    const stub = env.SESSION_STORE.get(env.SESSION_STORE.idFromName('main'));
+    await runInDurableObject(stub, async (_instance, state) => {
+      await state.storage.put(`revoked:${jti}`, new Date(Date.now() + 60 * 60 * 1000).toISOString());
+    });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      expect((await fetchWorker('/drivers', { headers: { Cookie: cookie } })).status).toBe(200);
+      vi.setSystemTime(Date.now() + 31 * 1000);
+      expect((await fetchWorker('/drivers', { headers: { Cookie: cookie } })).status).toBe(302);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('forgets per-user revocations once every earlier session has expired', async () => {
+    const stub = env.SESSION_STORE.get(env.SESSION_STORE.idFromName('main'));
+    await runInDurableObject(stub, async (_instance, state) => {
+      await state.storage.put('revoked_user:expired-user', { revoked_at: 1, max_expires_at: '2000-01-01T00:00:00.000Z' });
+    });
+    const admin = await withSession();
+    expect((await fetchWorker('/api/sessions', admin)).status).toBe(200);
+
+    expect(await (await fetchWorker('/api/sessions?sub=revoked-user-kept', { ...admin, method: 'DELETE' })).json()).toEqual({ revoked: 0 });
+    await runInDurableObject(stub, async (_instance, state) => {
+      expect(await state.storage.get('revoked_user:expired-user')).toBeUndefined();
+      // 既定ではキオスクの最長90日まで残す
+      const kept = await state.storage.get<{ max_expires_at: string }>('revoked_user:revoked-user-kept');
+      expect(Date.parse(kept!.max_expires_at)).toBeGreaterThan(Date.now() + 89 * 24 * 60 * 60 * 1000);
+    });
+  });
+
+  it('rejects cookies issued before sessions were tracked', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const jwt = await new jose.SignJWT({ ...TEST_USER })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setIssuedAt(now)
+      .setExpirationTime(now + 60 * 60)
+      .sign(new TextEncoder().encode(env.JWT_SECRET));
+    expect((await fetchWorker('/drivers', { headers: { Cookie: `tc_session=${jwt}` } })).status).toBe(302);
+  });
+
+  it('lists active sessions and revokes them one by one or per user', async () => {
+    const other = { ...TEST_USER, sub: 'revoke-target', email: 'target@example.com' };
+    const laptop = { headers: { Cookie: await sessionCookie(other), 'CF-Connecting-IP': '203.0.113.5', 'User-Agent': 'Laptop' } };
+    const phone = { headers: { Cookie: await sessionCookie(other), 'User-Agent': 'Phone' } };
+    expect((await fetchWorker('/api/version', laptop)).status).toBe(200);
+    expect((await fetchWorker('/api/version', phone)).status).toBe(200);
+
+    const admin = await withSession();
+    const list = await (await fetchWorker('/api/sessions', admin)).json<{
+      sessions: Array<{ jti: string; sub: string; ip: string; user_agent: string; current: boolean }>;
+    }>();
+    const targets = list.sessions.filter((session) => session.sub === 'revoke-target');
+    expect(targets.map((session) => session.user_agent).sort()).toEqual(['Laptop', 'Phone']);
+    expect(targets.find((session) => session.user_agent === 'Laptop')).toMatchObject({ ip: '203.0.113.5', current: false });
+    expect(list.sessions.some((session) => session.current)).toBe(true);
+
+    const laptopJti = targets.find((session) => session.user_agent === 'Laptop')!.jti;
+    expect(await (await fetchWorker(`/api/sessions/${laptopJti}`, { ...admin, method: 'DELETE' })).json()).toEqual({ revoked: 1 });
+    expect((await fetchWorker('/api/version', laptop)).status).toBe(302);
+    expect((await fetchWorker('/api/version', phone)).status).toBe(200);
+    expect((await fetchWorker(`/api/sessions/${laptopJti}`, { ...admin, method: 'DELETE' })).status).toBe(404);
+
+    expect(await (await fetchWorker('/api/sessions?sub=revoke-target', { ...admin, method: 'DELETE' })).json()).toEqual({ revoked: 1 });
+    expect((await fetchWorker('/api/version', phone)).status).toBe(302);
+  });
+});
+
+describe('role-based access control', () => {
+  const viewer = { ...TEST_USER, sub: 'viewer-1', email: 'viewer@example.com' };
+  const office = { ...TEST_USER, sub: 'office-1', email: 'office@example.com' };
+  const driver = { ...TEST_USER, sub: 'driver-1', email: 'driver@example.com' };
+
+  async function as(user: typeof TEST_USER, init: RequestInit = {}): Promise<RequestInit> {
+    return { ...init, headers: { ...init.headers, Cookie: await sessionCookie(user) } };
+  }
+
+  beforeEach(async () => {
+    installMockBackend();
+    await env.AUTH_KV!.put('roles', JSON.stringify({ default: 'viewer', emails: { 'office@example.com': 'office', 'driver@example.com': 'driver' } }));
+    clearRoleConfigCache();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await env.AUTH_KV!.delete('roles');
+    clearRoleConfigCache();
+  });
+
+  it('forbids pages outside the role and hides them from the navigation', async () => {
+    const forbidden = await fetchWorker('/clients', await as(viewer));
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.text()).toContain('このページを表示する権限がありません');
+
+    const page = await (await fetchWorker('/drivers', await as(viewer))).text();
+    expect(page).toContain('href="/photos"');
+    expect(page).not.toContain('href="/clients"');
+    expect(page).not.toContain('href="/delete_ic"');
+
+    expect((await fetchWorker('/delete_ic', await as(office))).status).toBe(200);
+    expect(await (await fetchWorker('/delete_ic', await as(office))).text()).not.toContain('href="/sessions"');
+  });
+
+  it('enforces API permissions per role', async () => {
+    expect((await fetchWorker('/api/drivers', await as(viewer))).status).toBe(200);
+
+    const denied = await fetchWorker('/api/drivers/reload', await as(viewer, { method: 'POST' }));
+    expect(denied.status).toBe(403);
+    expect(await denied.json()).toMatchObject({ error: { code: 'PERMISSION_DENIED' } });
+    expect((await fetchWorker('/api/sessions', await as(office))).status).toBe(403);
+
+    expect((await fetchWorker('/api/drivers/reload', await as(office, { method: 'POST' }))).status).toBe(200);
+
+    expect((await fetchWorker('/api/tmp_data', await as(driver))).status).toBe(403);
+    expect((await fetchWorker('/api/tmp_data/without_pic', await as(driver))).status).toBe(403);
+    expect((await fetchWorker('/api/version', await as(driver))).status).toBe(200);
+    expect((await fetchWorker('/api/tmp_data/without_pic', await as(viewer))).status).toBe(200);
+  });
+
+  it('treats everyone as a viewer until roles are configured', async () => {
+    await env.AUTH_KV!.delete('roles');
+    clearRoleConfigCache();
+    expect((await fetchWorker('/api/drivers', await withSession())).status).toBe(200);
+    expect((await fetchWorker('/api/sessions', await withSession())).status).toBe(403);
+    expect((await fetchWorker('/api/drivers/reload', await withSession({ method: 'POST' }))).status).toBe(403);
+  });
+});
+
+describe('API keys', () => {
+  beforeEach(() => {
+    installMockBackend();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function createKey(name: string, scopes: string[]): Promise<{ key: string; api_key: { id: string; prefix: string } }> {
+    const response = await fetchWorker('/api/api_keys', await withSession({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, scopes }),
+    }));
+    expect(response.status).toBe(201);
+    return response.json();
+  }
+
+  function bearer(key: string, init: RequestInit = {}): RequestInit {
+    return { ...init, headers: { ...init.headers, Authorization: `Bearer ${key}` } };
+  }
+
+  it('authenticates machine clients by scope and records the last use', async () => {
+    const { key, api_key } = await createKey('体温計端末', ['read:drivers', 'broadcast']);
+    expect(key).toMatch(/^tck_/);
+    expect(key.startsWith(api_key.prefix)).toBe(true);
+
+    const drivers = await fetchWorker('/api/drivers', bearer(key));
+    expect(drivers.status).toBe(200);
+    expect(drivers.headers.get('Set-Cookie')).toBeNull();
+    expect((await fetchWorker('/api/drivers/reload', bearer(key, { method: 'POST' }))).status).toBe(403);
+    // APIキーではページは開けない
+    expect((await fetchWorker('/drivers', bearer(key))).status).toBe(302);
+
+    const body = JSON.stringify({ status: 'tmp inserted' });
+    expect((await fetchWorker('/api/broadcast', bearer(key, { method: 'POST', body }))).status).toBe(200);
+
+    const list = await (await fetchWorker('/api/api_keys', await withSession())).json<{ api_keys: Array<Record<string, unknown>> }>();
+    const listed = list.api_keys.find((k) => k.id === api_key.id)!;
+    expect(listed).toMatchObject({ name: '体温計端末', scopes: ['read:drivers', 'broadcast'], created_by: TEST_USER.email });
+    expect(listed.last_used_at).not.toBeNull();
+    expect(JSON.stringify(list)).not.toContain(key);
+
+    // 認証ではキーの記録を書き換えない（削除・ローテーションと競合しないように）
+    const { keys } = await env.AUTH_KV!.list<{ id: string; last_used_at: string | null }>({ prefix: 'api_key:' });
+    expect(keys.find((entry) => entry.metadata?.id === api_key.id)?.metadata?.last_used_at).toBeNull();
+  });
+
+  it('rejects unknown, rotated and deleted keys with 401', async () => {
+    const unknown = await fetchWorker('/api/drivers', bearer('tck_unknown'));
+    expect(unknown.status).toBe(401);
+    expect(await unknown.json()).toMatchObject({ error: { code: 'UNAUTHENTICATED' } });
+
+    const { key, api_key } = await createKey('集計スクリプト', ['read:ic_log']);
+    const rotated = await (await fetchWorker(`/api/api_keys/${api_key.id}/rotate`, await withSession({ method: 'POST' }))).json<{ key: string; api_key: { id: string } }>();
+    expect((await fetchWorker('/api/ic_log', bearer(key))).status).toBe(401);
+    expect((await fetchWorker('/api/ic_log', bearer(rotated.key))).status).toBe(200);
+    // broadcast スコープのないキーではpushできない
+    expect((await fetchWorker('/api/broadcast', bearer(rotated.key, { method: 'POST', body: '{}' }))).status).toBe(403);
+
+    expect((await fetchWorker(`/api/api_keys/${rotated.api_key.id}`, await withSession({ method: 'DELETE' }))).status).toBe(200);
+    expect((await fetchWorker('/api/ic_log', bearer(rotated.key))).status).toBe(401);
+    expect(await env.AUTH_KV!.get(`api_key_used:${api_key.id}`)).toBeNull();
+    expect(await env.AUTH_KV!.get(`api_key_used:${rotated.api_key.id}`)).toBeNull();
+    expect((await fetchWorker(`/api/api_keys/${rotated.api_key.id}`, await withSession({ method: 'DELETE' }))).status).toBe(404);
+  });
+
+  it('validates the requested scopes', async () => {
+    const response = await fetchWorker('/api/api_keys', await withSession({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'x', scopes: ['write:everything'] }),
+    }));
+    expect(response.status).toBe(400);
+  });
+
+  it('limits the length of the name', async () => {
+    const response = await fetchWorker('/api/api_keys', await withSession({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'x'.repeat(65), scopes: ['read:ic_log'] }),
+    }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+    await createKey('x'.repeat(64), ['read:ic_log']);
+  });
+});
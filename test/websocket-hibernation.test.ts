@@ -0,0 +1,85 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { WebSocketHibernationDO } from '../src/durable-objects/websocket-hibernation';
+
+function nextMessage(ws: WebSocket): Promise<string> {
+  return new Promise((resolve) => {
+    ws.addEventListener('message', (event) => resolve(event.data as string), { once: true });
+  });
+}
+
+async function connect(stub: DurableObjectStub): Promise<WebSocket> {
+  const response = await stub.fetch('https://do/websocket', { headers: { Upgrade: 'websocket' } });
+  expect(response.status).toBe(101);
+  const ws = response.webSocket!;
+  const connected = nextMessage(ws);
+  ws.accept();
+  expect(JSON.parse(await connected)).toMatchObject({ type: 'connected' });
+  return ws;
+}
+
+describe('WebSocketHibernationDO', () => {
+  it('requires a WebSocket upgrade', async () => {
+    const stub = env.WEBSOCKET_HIBERNATION.get(env.WEBSOCKET_HIBERNATION.idFromName('upgrade'));
+    const response = await stub.fetch('https://do/websocket');
+    expect(response.status).toBe(426);
+  });
+
+  it('broadcasts pushed events to every connected client', async () => {
+    const stub = env.WEBSOCKET_HIBERNATION.get(env.WEBSOCKET_HIBERNATION.idFromName('broadcast'));
+    const clients = [await connect(stub), await connect(stub)];
+
+    const received = clients.map(nextMessage);
+    const event = JSON.stringify({ status: 'tmp inserted', data: { name: '山田 太郎' } });
+    const response = await stub.fetch('https://do/broadcast', { method: 'POST', body: event });
+    expect(response.status).toBe(200);
+    expect(await Promise.all(received)).toEqual([event, event]);
+
+    await runInDurableObject(stub, (instance: WebSocketHibernationDO) => {
+      expect(instance.getConnectionCount()).toBe(2);
+    });
+    clients.forEach((ws) => ws.close(1000, 'done'));
+  });
+
+  it('follows a feverish tmp event with a temperature_alert', async () => {
+    const stub = env.WEBSOCKET_HIBERNATION.get(env.WEBSOCKET_HIBERNATION.idFromName('fever'));
+    const ws = await connect(stub);
+
+    const messages: string[] = [];
+    const done = new Promise<void>((resolve) => {
+      ws.addEventListener('message', (event) => {
+        messages.push(event.data as string);
+        if (messages.length === 2) resolve();
+      });
+    });
+    const event = JSON.stringify({
+      type: 'hello',
+      data: { status: 'tmp inserted', ip: '192.168.1.101', data: { time: '2025-01-01T09:00:00.000000Z', tmp: '37.9,38.0,37.8', id: 1005, name: '田中 三郎' } },
+    });
+    await stub.fetch('https://do/broadcast', { method: 'POST', body: event });
+    await done;
+
+    expect(messages[0]).toBe(event);
+    expect(JSON.parse(messages[1])).toMatchObject({
+      type: 'temperature_alert',
+      data: { ip: '192.168.1.101', id: 1005, name: '田中 三郎', temperature: 38, threshold: 37.5 },
+    });
+    ws.close(1000, 'done');
+  });
+
+  it('relays client messages as hello events and answers pings', async () => {
+    const stub = env.WEBSOCKET_HIBERNATION.get(env.WEBSOCKET_HIBERNATION.idFromName('relay'));
+    const [sender, listener] = [await connect(stub), await connect(stub)];
+
+    const pong = nextMessage(sender);
+    sender.send(JSON.stringify({ type: 'ping' }));
+    expect(JSON.parse(await pong)).toMatchObject({ type: 'pong' });
+
+    const hello = nextMessage(listener);
+    sender.send(JSON.stringify({ type: 'message', data: 'こんにちは' }));
+    expect(JSON.parse(await hello)).toMatchObject({ type: 'hello', data: 'こんにちは' });
+
+    sender.close(1000, 'done');
+    listener.close(1000, 'done');
+  });
+});
@@ -0,0 +1,29 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+// Workerランタイム(workerd)上でテストを実行する
+// バックエンドは test/helpers.ts でモック（src/mock-backend）に差し替えるため、ネットワーク不要
+export default defineWorkersConfig({
+  test: {
+    poolOptions: {
+      workers: {
+        singleWorker: true,
+        // Durable Object の WebSocket はテスト間のストレージ分離に対応していない
+        isolatedStorage: false,
+        wrangler: { configPath: './wrangler.toml' },
+        miniflare: {
+          kvNamespaces: ['AUTH_KV'],
+          bindings: {
+            GRPC_API_URL: 'http://grpc.test',
+            JWT_SECRET: 'test-jwt-secret',
+            GRPC_USER_SECRET: 'test-grpc-user-secret',
+            BROADCAST_SECRET: 'test-broadcast-secret',
+            GOOGLE_OAUTH_CONFIG: '[]',
+            LINEWORKS_CONFIG: '{}',
+            CF_ACCESS_AUD: '',
+            GRPC_MAX_ATTEMPTS: '1',
+          },
+        },
+      },
+    },
+  },
+});